@@ -0,0 +1,19 @@
+import { MssqlAdapter } from "@kysely/kysely";
+import type { RetryOptions } from "./retry.ts";
+
+/**
+ * `MssqlAdapter` that also carries the parts of the dialect config the helpers
+ * need before they acquire a connection. Helpers reach it through
+ * `db.getExecutor().adapter`.
+ */
+export class OdbcMssqlAdapter extends MssqlAdapter {
+  /**
+   * Retry policy from the dialect config, used by `retryTransaction`.
+   */
+  readonly retryOptions: RetryOptions | undefined;
+
+  constructor(retryOptions: RetryOptions | undefined) {
+    super();
+    this.retryOptions = retryOptions;
+  }
+}
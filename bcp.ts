@@ -0,0 +1,305 @@
+import { CompiledQuery } from "@kysely/kysely";
+import { BcpType, type OdbcLib, SQL_NULL_DATA, strToBuf } from "./odbc.ts";
+import {
+  type DateRepresentation,
+  dateToTimestamp,
+  OdbcRequest,
+  plainDateTimeToTimestamp,
+  timestampToString,
+} from "./request.ts";
+import { validateObjectName } from "./identifier.ts";
+
+export type BulkLoadRow = Record<string, unknown>;
+
+export interface BulkLoadOptions {
+  /**
+   * Number of rows sent before they are committed with `bcp_batch`. Each
+   * batch is its own transaction on the server. Defaults to `10000`.
+   */
+  batchSize?: number;
+}
+
+type BcpColumn = {
+  name: string;
+  ordinal: number;
+  type: BcpType;
+  // Bound once for fixed-length types, replaced per row with `bcp_colptr`
+  // for variable-length ones.
+  buf: Uint8Array<ArrayBuffer>;
+  isNull: boolean;
+};
+
+const DEFAULT_BATCH_SIZE = 10_000;
+const EMPTY_BUF = new Uint8Array(2);
+
+/**
+ * Streams rows into a table with the bcp_* functions of the driver. The
+ * connection must have been opened with `SQL_COPT_SS_BCP` enabled.
+ *
+ * The bound type of each column is taken from its value in the first row:
+ * `boolean` as `bit`, `number` as `float`, `bigint` as `bigint`,
+ * `Uint8Array` as `varbinary` and everything else (strings, dates and
+ * columns that start out `null`) as `nvarchar`, which the server converts to
+ * the column type. `Date` values are sent as their UTC or, with `local` dates,
+ * their local time, like `Date` parameters.
+ */
+export class OdbcBulkCopy {
+  readonly #odbcLib: OdbcLib;
+  readonly #dbcHandle: Deno.PointerValue;
+  readonly #table: string;
+  readonly #columnNames: readonly string[];
+  readonly #batchSize: number;
+  readonly #dates: DateRepresentation;
+
+  constructor(
+    odbcLib: OdbcLib,
+    dbcHandle: Deno.PointerValue,
+    table: string,
+    columnNames: readonly string[],
+    options: BulkLoadOptions = {},
+    dates: DateRepresentation = "utc",
+  ) {
+    validateObjectName(table, "table");
+
+    const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+    if (!Number.isInteger(batchSize) || batchSize <= 0) {
+      throw new Error("batchSize must be a positive integer");
+    }
+    if (columnNames.length === 0) {
+      throw new Error("bulkLoad requires at least one column");
+    }
+
+    this.#odbcLib = odbcLib;
+    this.#dbcHandle = dbcHandle;
+    this.#table = table;
+    this.#columnNames = columnNames;
+    this.#batchSize = batchSize;
+    this.#dates = dates;
+  }
+
+  /**
+   * Sends all rows and returns the number of rows committed.
+   */
+  async load(
+    rows: AsyncIterable<BulkLoadRow> | Iterable<BulkLoadRow>,
+  ): Promise<number> {
+    const ordinals = await this.#getColumnOrdinals();
+    await this.#odbcLib.bcpInit(this.#dbcHandle, this.#table);
+
+    let columns: BcpColumn[] | null = null;
+    let rowCount = 0;
+    let batchRowCount = 0;
+
+    for await (const row of rows) {
+      columns ??= this.#bindColumns(row, ordinals);
+
+      // Variable-length values are only referenced by the driver, so they
+      // have to stay alive until the row has been sent.
+      const rowBuffers = columns.map((column) => this.#setValue(column, row));
+      await this.#odbcLib.bcpSendRow(this.#dbcHandle);
+      // prevent GC
+      rowBuffers.length;
+
+      if (++batchRowCount === this.#batchSize) {
+        rowCount += await this.#odbcLib.bcpBatch(this.#dbcHandle);
+        batchRowCount = 0;
+      }
+    }
+
+    return rowCount + await this.#odbcLib.bcpDone(this.#dbcHandle);
+  }
+
+  async #getColumnOrdinals(): Promise<Map<string, number>> {
+    // bcp_bind addresses server columns by their position in the table.
+    const compiledQuery = CompiledQuery.raw(
+      `SELECT name, CAST(ROW_NUMBER() OVER (ORDER BY column_id) AS int) AS ordinal
+       FROM sys.columns WHERE object_id = OBJECT_ID(?)`,
+      [this.#table],
+    );
+    const request = new OdbcRequest<{ name: string; ordinal: number }>(
+      this.#odbcLib,
+      compiledQuery,
+      this.#dbcHandle,
+    );
+    const { rows } = await request.execute();
+
+    if (rows.length === 0) {
+      throw new Error(`Table "${this.#table}" does not exist`);
+    }
+
+    return new Map(rows.map(({ name, ordinal }) => [name, ordinal]));
+  }
+
+  #bindColumns(
+    firstRow: BulkLoadRow,
+    ordinals: Map<string, number>,
+  ): BcpColumn[] {
+    return this.#columnNames.map((name) => {
+      const ordinal = ordinals.get(name);
+      if (ordinal === undefined) {
+        throw new Error(`Column "${name}" does not exist in "${this.#table}"`);
+      }
+
+      const type = getBcpType(firstRow[name]);
+      const fixedLength = getFixedLength(type);
+      const column: BcpColumn = {
+        name,
+        ordinal,
+        type,
+        buf: fixedLength === 0 ? EMPTY_BUF : new Uint8Array(fixedLength),
+        isNull: false,
+      };
+
+      this.#odbcLib.bcpBind(
+        this.#dbcHandle,
+        column.buf,
+        fixedLength,
+        type,
+        ordinal,
+      );
+
+      return column;
+    });
+  }
+
+  /**
+   * Points the column at the row's value and returns the buffer holding it.
+   */
+  #setValue(column: BcpColumn, row: BulkLoadRow): Uint8Array {
+    const value = row[column.name];
+
+    if (value === null || value === undefined) {
+      if (!column.isNull || getFixedLength(column.type) === 0) {
+        this.#odbcLib.bcpColLen(this.#dbcHandle, SQL_NULL_DATA, column.ordinal);
+        column.isNull = true;
+      }
+      return column.buf;
+    }
+
+    const fixedLength = getFixedLength(column.type);
+    if (fixedLength !== 0) {
+      writeFixedValue(column, value);
+      if (column.isNull) {
+        this.#odbcLib.bcpColLen(this.#dbcHandle, fixedLength, column.ordinal);
+        column.isNull = false;
+      }
+      return column.buf;
+    }
+
+    const { buf, byteLength } = encodeVariableValue(column, value, this.#dates);
+    this.#odbcLib.bcpColPtr(this.#dbcHandle, buf, column.ordinal);
+    this.#odbcLib.bcpColLen(this.#dbcHandle, byteLength, column.ordinal);
+    column.isNull = false;
+
+    return buf;
+  }
+}
+
+function getBcpType(value: unknown): BcpType {
+  switch (typeof value) {
+    case "boolean":
+      return BcpType.SQLBIT;
+    case "number":
+      return BcpType.SQLFLT8;
+    case "bigint":
+      return BcpType.SQLINT8;
+  }
+
+  if (value instanceof Uint8Array) {
+    return BcpType.SQLBIGVARBINARY;
+  }
+
+  return BcpType.SQLNCHAR;
+}
+
+/**
+ * Returns the byte length of a fixed-length type, or `0` for variable-length
+ * types.
+ */
+function getFixedLength(type: BcpType): number {
+  switch (type) {
+    case BcpType.SQLBIT:
+      return 1;
+    case BcpType.SQLFLT8:
+    case BcpType.SQLINT8:
+      return 8;
+    default:
+      return 0;
+  }
+}
+
+function writeFixedValue(column: BcpColumn, value: unknown): void {
+  const view = new DataView(column.buf.buffer);
+
+  switch (column.type) {
+    case BcpType.SQLBIT:
+      if (typeof value !== "boolean" && typeof value !== "number") break;
+      view.setUint8(0, value ? 1 : 0);
+      return;
+    case BcpType.SQLFLT8:
+      if (typeof value !== "number" && typeof value !== "bigint") break;
+      // Like parameter arrays, bigints are only widened if that keeps their
+      // exact value.
+      if (typeof value === "bigint" && BigInt(Number(value)) !== value) {
+        throw new Error(
+          `Bulk load column "${column.name}" mixes numbers with the bigint ${value}, which cannot be widened to float without losing precision`,
+        );
+      }
+      view.setFloat64(0, Number(value), true);
+      return;
+    case BcpType.SQLINT8:
+      if (typeof value === "bigint") {
+        view.setBigInt64(0, value, true);
+        return;
+      }
+      if (!Number.isInteger(value)) break;
+      view.setBigInt64(0, BigInt(value as number), true);
+      return;
+  }
+
+  throw new TypeError(
+    `Unexpected value for bulk load column "${column.name}": ${typeof value}`,
+  );
+}
+
+function encodeVariableValue(
+  column: BcpColumn,
+  value: unknown,
+  dates: DateRepresentation,
+): { buf: Uint8Array<ArrayBuffer>; byteLength: number } {
+  if (column.type === BcpType.SQLBIGVARBINARY) {
+    if (!(value instanceof Uint8Array)) {
+      throw new TypeError(
+        `Unexpected value for bulk load column "${column.name}": ${typeof value}`,
+      );
+    }
+    return {
+      buf: value.byteLength === 0
+        ? EMPTY_BUF // prevents passing a NULL pointer for empty buffers
+        : value as Uint8Array<ArrayBuffer>,
+      byteLength: value.byteLength,
+    };
+  }
+
+  let str: string;
+  if (typeof value === "string") {
+    str = value;
+  } else if (value instanceof Date) {
+    str = timestampToString(dateToTimestamp(value, dates), false);
+  } else if (value instanceof Temporal.PlainDate) {
+    str = value.toString();
+  } else if (value instanceof Temporal.PlainDateTime) {
+    str = timestampToString(plainDateTimeToTimestamp(value), false);
+  } else if (typeof value === "boolean") {
+    str = value ? "1" : "0";
+  } else if (typeof value === "number" || typeof value === "bigint") {
+    str = value.toString();
+  } else {
+    throw new TypeError(
+      `Unexpected value for bulk load column "${column.name}": ${typeof value}`,
+    );
+  }
+
+  // strToBuf appends a null terminator that is not part of the length.
+  return { buf: strToBuf(str), byteLength: str.length * 2 };
+}
@@ -0,0 +1,131 @@
+import { FreeStmtOption, HandleType, type OdbcLib } from "./odbc.ts";
+import type { ColBinding, ColumnMetadata } from "./request.ts";
+
+export type CachedStatement = {
+  sql: string;
+  stmtHandle: Deno.PointerValue;
+  colBindings: Map<string, ColBinding> | null;
+  columns: ColumnMetadata[];
+  /**
+   * Rowset size requested when the columns were bound, and the buffer
+   * receiving the number of fetched rows when block fetching is active.
+   */
+  rowsetSize: number;
+  rowsFetchedBuf: BigInt64Array<ArrayBuffer> | null;
+  inUse: boolean;
+  isEvicted: boolean;
+};
+
+/**
+ * Size-bounded LRU cache of prepared statement handles, keyed by SQL text.
+ *
+ * A cached statement is handed out to one request at a time. Statements that
+ * get evicted while in use are freed once the request releases them.
+ */
+export class StatementCache {
+  readonly #odbcLib: OdbcLib;
+  readonly #maxSize: number;
+  readonly #statements: Map<string, CachedStatement> = new Map();
+
+  constructor(odbcLib: OdbcLib, maxSize: number) {
+    this.#odbcLib = odbcLib;
+    this.#maxSize = maxSize;
+  }
+
+  has(sql: string): boolean {
+    return this.#statements.has(sql);
+  }
+
+  acquire(sql: string): CachedStatement | undefined {
+    const statement = this.#statements.get(sql);
+    if (!statement || statement.inUse) return undefined;
+
+    // Map iteration order is insertion order, so re-inserting marks the
+    // statement as the most recently used one.
+    this.#statements.delete(sql);
+    this.#statements.set(sql, statement);
+
+    statement.inUse = true;
+    return statement;
+  }
+
+  add(sql: string, stmtHandle: Deno.PointerValue): CachedStatement {
+    while (this.#statements.size >= this.#maxSize) {
+      const [oldestSql, oldest] = this.#statements.entries().next().value!;
+      this.#statements.delete(oldestSql);
+      this.#evict(oldest);
+    }
+
+    const statement: CachedStatement = {
+      sql,
+      stmtHandle,
+      colBindings: null,
+      columns: [],
+      rowsetSize: 1,
+      rowsFetchedBuf: null,
+      inUse: true,
+      isEvicted: false,
+    };
+    this.#statements.set(sql, statement);
+
+    return statement;
+  }
+
+  /**
+   * Hands a statement back to the cache. Statements of failed requests are
+   * discarded, as their state is unknown. The statement is also discarded if
+   * resetting it fails, and the error is only thrown if the request itself
+   * did not fail, so that it does not hide the original error.
+   */
+  release(statement: CachedStatement, discard: boolean): void {
+    statement.inUse = false;
+
+    if (discard || statement.isEvicted) {
+      this.#discard(statement);
+      return;
+    }
+
+    // Close the cursor and drop the parameter bindings, but keep the
+    // statement prepared and its columns bound for the next execution.
+    try {
+      this.#odbcLib.freeStmt(statement.stmtHandle, FreeStmtOption.SQL_CLOSE);
+      this.#odbcLib.freeStmt(
+        statement.stmtHandle,
+        FreeStmtOption.SQL_RESET_PARAMS,
+      );
+    } catch (error) {
+      this.#discard(statement);
+      throw error;
+    }
+  }
+
+  clear(): void {
+    for (const statement of this.#statements.values()) {
+      this.#evict(statement);
+    }
+    this.#statements.clear();
+  }
+
+  #evict(statement: CachedStatement): void {
+    if (statement.inUse) {
+      statement.isEvicted = true;
+    } else {
+      this.#free(statement);
+    }
+  }
+
+  #discard(statement: CachedStatement): void {
+    if (this.#statements.get(statement.sql) === statement) {
+      this.#statements.delete(statement.sql);
+    }
+    this.#free(statement);
+  }
+
+  #free(statement: CachedStatement): void {
+    this.#odbcLib.freeHandle(HandleType.SQL_HANDLE_STMT, statement.stmtHandle);
+    statement.stmtHandle = null;
+    statement.colBindings = null;
+    statement.columns = [];
+    statement.rowsFetchedBuf = null;
+  }
+}
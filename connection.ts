@@ -2,7 +2,6 @@ import {
   CompiledQuery,
   type DatabaseConnection,
   type IsolationLevel,
-  type QueryResult,
   type TransactionSettings,
 } from "@kysely/kysely";
 import {
@@ -12,26 +11,49 @@ import {
   SQL_ATTR_TXN_ISOLATION,
   SQL_AUTOCOMMIT_OFF,
   SQL_AUTOCOMMIT_ON,
+  SQL_BCP_ON,
+  SQL_COPT_SS_BCP,
   TxCompletionType,
   TxIsolationLevel,
 } from "./odbc.ts";
-import { OdbcRequest } from "./request.ts";
+import {
+  type BulkResult,
+  type OdbcQueryResult,
+  OdbcRequest,
+  type RequestOptions,
+  type ResultSet,
+  type ResultSetChunk,
+} from "./request.ts";
+import { StatementCache } from "./cache.ts";
+import { type BulkLoadOptions, type BulkLoadRow, OdbcBulkCopy } from "./bcp.ts";
+import type { OdbcDialectConfig } from "./driver.ts";
+import { getQueryOptions } from "./plugin.ts";
+
+const DEFAULT_ROWSET_SIZE = 1;
 
 export class OdbcConnection implements DatabaseConnection {
   readonly #odbcLib: OdbcLib;
-  readonly #connectionString: string;
+  readonly #config: OdbcDialectConfig;
   readonly #envHandle: Deno.PointerValue;
   #dbcHandle: Deno.PointerValue = null;
+  #statementCache: StatementCache | undefined;
+  readonly #isBulkCopy: boolean;
   #hasSocketError: boolean = false;
 
+  /**
+   * @param isBulkCopy Enables the bcp_* functions for this connection. Only
+   * used for the dedicated connections of `bulkLoad`.
+   */
   constructor(
     odbcLib: OdbcLib,
-    connectionString: string,
+    config: OdbcDialectConfig,
     envHandle: Deno.PointerValue,
+    isBulkCopy = false,
   ) {
     this.#odbcLib = odbcLib;
-    this.#connectionString = connectionString;
+    this.#config = config;
     this.#envHandle = envHandle;
+    this.#isBulkCopy = isBulkCopy;
   }
 
   async connect(): Promise<this> {
@@ -40,18 +62,39 @@ export class OdbcConnection implements DatabaseConnection {
       this.#envHandle,
     );
     try {
+      if (this.#isBulkCopy) {
+        // Must be set before connecting.
+        this.#odbcLib.setConnectAttr(
+          this.#dbcHandle,
+          SQL_COPT_SS_BCP,
+          Deno.UnsafePointer.create(SQL_BCP_ON),
+        );
+      }
       await this.#odbcLib.driverConnect(
-        this.#connectionString,
+        this.#config.odbc.connectionString,
         this.#dbcHandle,
       );
     } catch (error) {
       this.#hasSocketError = true;
+      // Nothing to disconnect, so `destroy` would not get to free the handle.
+      this.#odbcLib.freeHandle(HandleType.SQL_HANDLE_DBC, this.#dbcHandle);
+      this.#dbcHandle = null;
       throw error;
     }
+
+    if (this.#config.statementCacheSize) {
+      this.#statementCache = new StatementCache(
+        this.#odbcLib,
+        this.#config.statementCacheSize,
+      );
+    }
+
     return this;
   }
 
-  async executeQuery<R>(compiledQuery: CompiledQuery): Promise<QueryResult<R>> {
+  async executeQuery<R>(
+    compiledQuery: CompiledQuery,
+  ): Promise<OdbcQueryResult<R>> {
     if (!this.#dbcHandle) {
       throw new Error("Connection is closed");
     }
@@ -60,19 +103,23 @@ export class OdbcConnection implements DatabaseConnection {
       this.#odbcLib,
       compiledQuery,
       this.#dbcHandle,
+      this.#getRequestOptions(compiledQuery),
     );
-    const { numAffectedRows, rows } = await request.execute();
+    const { numAffectedRows, rows, columns, messages } = await request
+      .execute();
 
     return {
       numAffectedRows: numAffectedRows !== -1n ? numAffectedRows : undefined,
       rows,
+      ...(columns && { columns }),
+      ...(messages && { messages }),
     };
   }
 
   async *streamQuery<R>(
     compiledQuery: CompiledQuery,
     chunkSize: number,
-  ): AsyncIterableIterator<QueryResult<R>> {
+  ): AsyncIterableIterator<OdbcQueryResult<R>> {
     if (!this.#dbcHandle) {
       throw new Error("Connection is closed");
     }
@@ -84,10 +131,140 @@ export class OdbcConnection implements DatabaseConnection {
       this.#odbcLib,
       compiledQuery,
       this.#dbcHandle,
+      this.#getRequestOptions(compiledQuery),
     );
     yield* request.stream(chunkSize);
   }
 
+  /**
+   * Executes a batch or stored procedure and returns all of its result sets.
+   */
+  async executeMulti<R>(compiledQuery: CompiledQuery): Promise<ResultSet<R>[]> {
+    if (!this.#dbcHandle) {
+      throw new Error("Connection is closed");
+    }
+
+    const request = new OdbcRequest<R>(
+      this.#odbcLib,
+      compiledQuery,
+      this.#dbcHandle,
+      this.#getRequestOptions(compiledQuery, false),
+    );
+    return await request.executeMulti();
+  }
+
+  /**
+   * Streams all result sets of a batch or stored procedure in order, in chunks
+   * of at most `chunkSize` rows.
+   */
+  async *streamMulti<R>(
+    compiledQuery: CompiledQuery,
+    chunkSize: number,
+  ): AsyncIterableIterator<ResultSetChunk<R>> {
+    if (!this.#dbcHandle) {
+      throw new Error("Connection is closed");
+    }
+    if (!Number.isInteger(chunkSize) || chunkSize <= 0) {
+      throw new Error("chunkSize must be a positive integer");
+    }
+
+    const request = new OdbcRequest<R>(
+      this.#odbcLib,
+      compiledQuery,
+      this.#dbcHandle,
+      this.#getRequestOptions(compiledQuery, false),
+    );
+    yield* request.streamMulti(chunkSize);
+  }
+
+  /**
+   * Executes a procedure call and returns its result sets together with the
+   * values of its `OUTPUT` parameters, keyed by parameter index.
+   */
+  async executeProcedure<R>(
+    compiledQuery: CompiledQuery,
+    paramNames: readonly string[],
+  ): Promise<{
+    resultSets: ResultSet<R>[];
+    outputs: Map<number, unknown>;
+  }> {
+    if (!this.#dbcHandle) {
+      throw new Error("Connection is closed");
+    }
+
+    const request = new OdbcRequest<R>(
+      this.#odbcLib,
+      compiledQuery,
+      this.#dbcHandle,
+      this.#getRequestOptions(compiledQuery, false),
+    );
+    return await request.executeProcedure(paramNames);
+  }
+
+  /**
+   * Executes `sql` once for every parameter set, sending all sets at once as
+   * parameter arrays.
+   */
+  async executeBulk(
+    sql: string,
+    parameterSets: readonly (readonly unknown[])[],
+  ): Promise<BulkResult> {
+    if (!this.#dbcHandle) {
+      throw new Error("Connection is closed");
+    }
+
+    const compiledQuery = CompiledQuery.raw(sql);
+    const request = new OdbcRequest<unknown>(
+      this.#odbcLib,
+      compiledQuery,
+      this.#dbcHandle,
+      this.#getRequestOptions(compiledQuery, false),
+    );
+    return await request.executeBulk(parameterSets);
+  }
+
+  /**
+   * Creates a connection with the same configuration and the bcp_* functions
+   * enabled. It is not part of the pool and has to be connected and destroyed
+   * by the caller.
+   */
+  createBulkCopyConnection(): OdbcConnection {
+    return new OdbcConnection(
+      this.#odbcLib,
+      this.#config,
+      this.#envHandle,
+      true,
+    );
+  }
+
+  /**
+   * Bulk copies `rows` into `table`, committing every `batchSize` rows, and
+   * returns the number of rows copied.
+   */
+  async bulkLoad(
+    table: string,
+    columns: readonly string[],
+    rows: AsyncIterable<BulkLoadRow> | Iterable<BulkLoadRow>,
+    options?: BulkLoadOptions,
+  ): Promise<number> {
+    if (!this.#dbcHandle) {
+      throw new Error("Connection is closed");
+    }
+    if (!this.#isBulkCopy) {
+      throw new Error("Bulk copy is not enabled on this connection");
+    }
+
+    const bulkCopy = new OdbcBulkCopy(
+      this.#odbcLib,
+      this.#dbcHandle,
+      table,
+      columns,
+      options,
+      this.#config.dates,
+    );
+    return await bulkCopy.load(rows);
+  }
+
   // deno-lint-ignore require-await
   async beginTransaction(settings: TransactionSettings): Promise<void> {
     if (!this.#dbcHandle) {
@@ -172,6 +349,7 @@ export class OdbcConnection implements DatabaseConnection {
     if (this.#dbcHandle === null) return;
 
     try {
+      this.#statementCache?.clear();
       await this.#odbcLib.disconnect(this.#dbcHandle);
     } finally {
       this.#odbcLib.freeHandle(HandleType.SQL_HANDLE_DBC, this.#dbcHandle);
@@ -204,6 +382,50 @@ export class OdbcConnection implements DatabaseConnection {
     await this.rollbackTransaction();
   }
 
+  #getRequestOptions(
+    compiledQuery: CompiledQuery,
+    useStatementCache = true,
+  ): RequestOptions {
+    const queryOptions = getQueryOptions(compiledQuery);
+    const queryTimeout = queryOptions?.queryTimeout ??
+      this.#config.queryTimeout;
+
+    if (
+      queryTimeout !== undefined &&
+      (!Number.isInteger(queryTimeout) || queryTimeout < 0)
+    ) {
+      throw new Error("queryTimeout must be a non-negative integer");
+    }
+
+    const rowsetSize = this.#config.rowsetSize ?? DEFAULT_ROWSET_SIZE;
+    if (!Number.isInteger(rowsetSize) || rowsetSize <= 0) {
+      throw new Error("rowsetSize must be a positive integer");
+    }
+
+    // Per-type representations take precedence over the Temporal opt-in.
+    const temporal = this.#config.temporal ? "temporal" : undefined;
+
+    return {
+      // Cached statements only keep the bindings of their first result set.
+      statementCache: useStatementCache ? this.#statementCache : undefined,
+      queryTimeout,
+      signal: queryOptions?.signal,
+      rowsetSize,
+      lobStreams: queryOptions?.lobStreams,
+      duplicateColumns: this.#config.duplicateColumns,
+      columnMetadata: queryOptions?.columnMetadata ??
+        this.#config.columnMetadata,
+      dates: this.#config.dates ?? temporal,
+      time: this.#config.time ?? temporal,
+      datetimeOffset: this.#config.datetimeOffset ?? temporal,
+      decimal: this.#config.decimal,
+      xml: this.#config.xml,
+      spatial: this.#config.spatial,
+      hierarchyId: this.#config.hierarchyId,
+      onMessage: this.#config.onMessage,
+    };
+  }
+
   #cleanupTransactionState(): void {
     this.#setIsolationLevel("read committed");
     this.#odbcLib.setConnectAttr(
@@ -1,6 +1,8 @@
 import { type OdbcDialectConfig, OdbcDriver } from "./driver.ts";
+import { OdbcMssqlAdapter } from "./adapter.ts";
 
 import {
+  type DialectAdapter,
   type Driver,
   MssqlDialect,
   type MssqlDialectConfig,
@@ -8,6 +10,75 @@ import {
   type QueryCompiler,
 } from "@kysely/kysely";
 
+export type { Odbc, OdbcDialectConfig } from "./driver.ts";
+export type { BulkLoadOptions, BulkLoadRow } from "./bcp.ts";
+export type { DiagRecord } from "./odbc.ts";
+export {
+  isConnectionError,
+  isDeadlock,
+  isForeignKeyViolation,
+  isTimeout,
+  isUniqueViolation,
+  OdbcError,
+  type OdbcErrorOptions,
+  QueryTimeoutError,
+} from "./errors.ts";
+export {
+  bulkLoad,
+  callProcedure,
+  executeBulk,
+  executeMulti,
+  type ProcedureResult,
+  retryTransaction,
+  type RetryTransactionOptions,
+  streamMulti,
+} from "./helpers.ts";
+export {
+  inputOutput,
+  output,
+  type ProcedureOutputs,
+  ProcedureParameter,
+  type ProcedureParameterOptions,
+  type ProcedureParameterType,
+  type ProcedureParameterTypes,
+} from "./procedure.ts";
+export { type QueryOptions, QueryOptionsPlugin } from "./plugin.ts";
+export type { RetryOptions } from "./retry.ts";
+export {
+  type DateTimeOffset,
+  datetimeoffset,
+  decimal,
+  geography,
+  geometry,
+  guid,
+  hierarchyid,
+  real,
+  time,
+  TypedParameter,
+  type TypedParameterOptions,
+  type TypedParameterType,
+  type TypedParameterTypes,
+  xml,
+} from "./values.ts";
+export type { Geometry, Position } from "./udt.ts";
+export type {
+  BulkResult,
+  BulkRowStatus,
+  ColumnMetadata,
+  DateRepresentation,
+  DateTimeOffsetRepresentation,
+  DecimalRepresentation,
+  DuplicateColumnPolicy,
+  HierarchyIdRepresentation,
+  OdbcQueryResult,
+  ResultSet,
+  ResultSetChunk,
+  SpatialRepresentation,
+  StreamParameter,
+  TimeRepresentation,
+  XmlParser,
+} from "./request.ts";
+
 /**
  * Deno-specific Kysely dialect for MSSQL that binds to the native Microsoft ODBC Driver for SQL Server using Deno FFI.
  *
@@ -47,6 +118,10 @@ export class MssqlOdbcDialect extends MssqlDialect {
     return new OdbcDriver(this.#config);
   }
 
+  override createAdapter(): DialectAdapter {
+    return new OdbcMssqlAdapter(this.#config.retry);
+  }
+
   override createQueryCompiler(): QueryCompiler {
     return new OdbcMssqlQueryCompiler();
   }
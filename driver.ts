@@ -7,12 +7,130 @@ import type {
   MssqlDialectConfig,
   TransactionSettings,
 } from "@kysely/kysely";
-import { HandleType, OdbcLib } from "./odbc.ts";
+import { type DiagRecord, HandleType, OdbcLib } from "./odbc.ts";
 import { OdbcConnection } from "./connection.ts";
+import type {
+  DateRepresentation,
+  DateTimeOffsetRepresentation,
+  DecimalRepresentation,
+  DuplicateColumnPolicy,
+  HierarchyIdRepresentation,
+  SpatialRepresentation,
+  TimeRepresentation,
+  XmlParser,
+} from "./request.ts";
+import type { RetryOptions } from "./retry.ts";
 
 export interface OdbcDialectConfig
   extends Omit<MssqlDialectConfig, "tedious" | "tarn"> {
   odbc: Odbc;
+  /**
+   * Maximum number of prepared statements cached per connection, keyed by the
+   * compiled SQL. Repeated queries are re-executed with `SQLExecute` instead
+   * of being parsed again. Disabled when omitted or `0`.
+   */
+  statementCacheSize?: number;
+  /**
+   * Default number of seconds to wait for a statement to complete before it
+   * is cancelled with a `QueryTimeoutError`. Can be overridden per query with
+   * the `QueryOptionsPlugin`. No timeout when omitted or `0`.
+   */
+  queryTimeout?: number;
+  /**
+   * Number of rows fetched per `SQLFetch` call. Result columns are bound as
+   * arrays so a single call returns a whole rowset, except for results with
+   * LOB (`max`) columns, which are fetched one row at a time. Every bound
+   * buffer holds `rowsetSize` values, so wide columns multiply the memory
+   * kept per statement. Defaults to `1`, which disables block fetching.
+   */
+  rowsetSize?: number;
+  /**
+   * How result columns that share a name (e.g. `a.id` and `b.id` of a join)
+   * are returned: `error` rejects the query, `suffix` renames the repeated
+   * columns to `id_2`, `id_3`, ... and `array` returns every row as an array
+   * in column order. Defaults to `suffix`. Columns without a name are always
+   * named after their position (`column_1`, `column_2`, ...).
+   */
+  duplicateColumns?: DuplicateColumnPolicy;
+  /**
+   * Attaches the columns of the result set (name, type, size, scale,
+   * nullability and, when the driver provides them, base table and column)
+   * to query results as `columns`, even when no rows are returned. Streams
+   * attach them to their first chunk. Can be overridden per query with the
+   * `QueryOptionsPlugin`. Disabled by default.
+   */
+  columnMetadata?: boolean;
+  /**
+   * How `date`, `datetime`, `datetime2` and `smalldatetime` values are
+   * returned: `utc` or `local` as a `Date` that reads the stored value as UTC
+   * or local time, `string` as `YYYY-MM-DD` or `YYYY-MM-DDTHH:MM:SS.fffffff`
+   * with the full 100ns precision, or `temporal` as a `Temporal.PlainDate` or
+   * `Temporal.PlainDateTime`. `Date` parameters are bound as their local time
+   * with `local`, as UTC otherwise. Defaults to `utc`.
+   */
+  dates?: DateRepresentation;
+  /**
+   * How `time` values are returned: `string` as `HH:MM:SS.fffffff` with the
+   * full 100ns precision, `milliseconds` as the (fractional) number of
+   * milliseconds since midnight or `temporal` as a `Temporal.PlainTime`.
+   * Defaults to `string`.
+   */
+  time?: TimeRepresentation;
+  /**
+   * How `datetimeoffset` values are returned: `string` as an ISO 8601 string
+   * with 7 fractional digits and the stored offset (e.g.
+   * `2024-05-01T08:30:00.1234567+02:00`), `date` as a `Date` plus the
+   * offset in minutes (`{ date, offset }`) or `temporal` as a
+   * `Temporal.ZonedDateTime` in the stored offset. Defaults to `string`.
+   */
+  datetimeOffset?: DateTimeOffsetRepresentation;
+  /**
+   * Returns date and time values as Temporal objects: `date` as
+   * `Temporal.PlainDate`, `datetime` and `datetime2` as
+   * `Temporal.PlainDateTime`, `time` as `Temporal.PlainTime` and
+   * `datetimeoffset` as `Temporal.ZonedDateTime`. Shorthand for setting
+   * `dates`, `time` and `datetimeOffset` to `temporal`, which take precedence
+   * when set. Disabled by default.
+   */
+  temporal?: boolean;
+  /**
+   * How `decimal`, `numeric`, `money` and `smallmoney` values are returned:
+   * `string` as the exact decimal string, `number` rounded to double
+   * precision, `bigint` as the unscaled integer (`12.34` from a
+   * `decimal(10, 2)` column as `1234n`) or a function that receives the
+   * decimal string, e.g. `(value) => new Decimal(value)`. Defaults to `string`.
+   */
+  decimal?: DecimalRepresentation;
+  /**
+   * Parses `xml` values, e.g. into a DOM or an object. Without a parser they
+   * are returned as strings. Not applied to streamed LOB columns.
+   */
+  xml?: XmlParser;
+  /**
+   * How `geography` and `geometry` values are returned: `binary` as the
+   * serialized `Uint8Array`, `geojson` as a GeoJSON geometry object or `wkt`
+   * as WKT. Defaults to `binary`.
+   */
+  spatial?: SpatialRepresentation;
+  /**
+   * How `hierarchyid` values are returned: `binary` as the serialized
+   * `Uint8Array` or `string` as the path, e.g. `/1/2.1/`. Defaults to
+   * `binary`.
+   */
+  hierarchyId?: HierarchyIdRepresentation;
+  /**
+   * Called with every informational message the server sends, such as `PRINT`
+   * output, `RAISERROR` with a severity of 10 or lower and other warnings
+   * reported with `SQL_SUCCESS_WITH_INFO`. Query results also carry the
+   * messages of their query as `messages`.
+   */
+  onMessage?: (message: DiagRecord) => void;
+  /**
+   * Retry policy of `retryTransaction`: how often a transaction is rerun
+   * after a deadlock or a transient error, how long to wait in between and
+   * which SQL Server error numbers are retried.
+   */
+  retry?: RetryOptions;
   tarn: {
     options: Omit<
       PoolOptions<OdbcConnection>,
@@ -45,7 +163,7 @@ export class OdbcDriver implements Driver {
         }
         const connection = new OdbcConnection(
           this.#odbcLib,
-          this.#config.odbc.connectionString,
+          this.#config,
           this.#envHandle,
         );
         await connection.connect();
@@ -0,0 +1,117 @@
+import type { DiagRecord } from "./odbc.ts";
+
+export interface OdbcErrorOptions {
+  /**
+   * The ODBC function that failed, e.g. `SQLExecDirectW`.
+   */
+  functionName: string;
+  records: DiagRecord[];
+  sql?: string;
+}
+
+/**
+ * Thrown when an ODBC function fails. Carries the diagnostic records of the
+ * failure, so callers can inspect SQLSTATEs and SQL Server error numbers
+ * instead of parsing the message. See {@link isUniqueViolation},
+ * {@link isForeignKeyViolation}, {@link isDeadlock}, {@link isTimeout} and
+ * {@link isConnectionError} for the common cases.
+ */
+export class OdbcError extends Error {
+  override readonly name: string = "OdbcError";
+  readonly functionName: string;
+  readonly records: DiagRecord[];
+  readonly sql: string | undefined;
+
+  constructor(message: string, options: OdbcErrorOptions) {
+    super(message);
+    this.functionName = options.functionName;
+    this.records = options.records;
+    this.sql = options.sql;
+  }
+
+  /**
+   * SQLSTATE of the first diagnostic record, `undefined` if there is none.
+   */
+  get sqlState(): string | undefined {
+    return this.records[0]?.sqlState;
+  }
+
+  /**
+   * SQL Server error number of the first diagnostic record, `undefined` if
+   * there is none.
+   */
+  get nativeError(): number | undefined {
+    return this.records[0]?.nativeError;
+  }
+
+  /**
+   * Returns `true` if any diagnostic record has one of the given SQL Server
+   * error numbers.
+   */
+  hasNativeError(...nativeErrors: number[]): boolean {
+    return this.records.some((record) =>
+      nativeErrors.includes(record.nativeError)
+    );
+  }
+
+  /**
+   * Returns `true` if any diagnostic record has one of the given SQLSTATEs.
+   */
+  hasSqlState(...sqlStates: string[]): boolean {
+    return this.records.some((record) => sqlStates.includes(record.sqlState));
+  }
+}
+
+/**
+ * Thrown when a statement runs longer than its query timeout (SQLSTATE
+ * `HYT00`). The statement is cancelled by the driver and the connection stays
+ * usable.
+ */
+export class QueryTimeoutError extends OdbcError {
+  override readonly name = "QueryTimeoutError";
+}
+
+/**
+ * Returns `true` for violations of a primary key or unique constraint (error
+ * 2627) or a unique index (error 2601).
+ */
+export function isUniqueViolation(error: unknown): error is OdbcError {
+  return error instanceof OdbcError && error.hasNativeError(2627, 2601);
+}
+
+/**
+ * Returns `true` for statements that conflict with a `FOREIGN KEY` constraint
+ * (error 547). `CHECK` constraint violations share the error number and are
+ * not matched.
+ */
+export function isForeignKeyViolation(error: unknown): error is OdbcError {
+  return error instanceof OdbcError &&
+    error.records.some(({ nativeError, message }) =>
+      nativeError === 547 && /\b(FOREIGN KEY|REFERENCE)\b/.test(message)
+    );
+}
+
+/**
+ * Returns `true` if the transaction was chosen as a deadlock victim (error
+ * 1205) and rolled back.
+ */
+export function isDeadlock(error: unknown): error is OdbcError {
+  return error instanceof OdbcError && error.hasNativeError(1205);
+}
+
+/**
+ * Returns `true` if a statement ran past its query timeout (`HYT00`) or a
+ * login ran past the connection timeout (`HYT01`).
+ */
+export function isTimeout(error: unknown): error is OdbcError {
+  return error instanceof OdbcError && error.hasSqlState("HYT00", "HYT01");
+}
+
+/**
+ * Returns `true` if the connection could not be established or was lost
+ * (SQLSTATE class `08`). The connection has to be discarded.
+ */
+export function isConnectionError(error: unknown): error is OdbcError {
+  return error instanceof OdbcError &&
+    error.records.some(({ sqlState }) => sqlState.startsWith("08"));
+}
@@ -0,0 +1,272 @@
+import {
+  CompiledQuery,
+  type IsolationLevel,
+  type Kysely,
+  type Transaction,
+  type UnknownRow,
+} from "@kysely/kysely";
+import { OdbcConnection } from "./connection.ts";
+import { OdbcMssqlAdapter } from "./adapter.ts";
+import type { BulkResult, ResultSet, ResultSetChunk } from "./request.ts";
+import type { BulkLoadOptions, BulkLoadRow } from "./bcp.ts";
+import { output, type ProcedureOutputs } from "./procedure.ts";
+import { validateObjectName } from "./identifier.ts";
+import { type RetryOptions, withRetry } from "./retry.ts";
+
+export interface ProcedureResult<
+  P extends Record<string, unknown>,
+  R = UnknownRow,
+> {
+  returnValue: number | null;
+  outputs: ProcedureOutputs<P>;
+  resultSets: ResultSet<R>[];
+}
+
+export interface RetryTransactionOptions extends RetryOptions {
+  isolationLevel?: IsolationLevel;
+}
+
+/**
+ * Executes a batch or stored procedure and returns every result set it
+ * produced, each with its own rows, column metadata and affected-row count.
+ *
+ * ```ts
+ * const [header, details] = await executeMulti(
+ *   db,
+ *   sql`EXEC dbo.GetOrder @id = ${id}`.compile(db),
+ * );
+ * ```
+ */
+export async function executeMulti<DB, R = UnknownRow>(
+  db: Kysely<DB>,
+  compiledQuery: CompiledQuery,
+): Promise<ResultSet<R>[]> {
+  return await db.getExecutor().provideConnection(async (connection) => {
+    return await assertOdbcConnection(connection).executeMulti<R>(
+      compiledQuery,
+    );
+  });
+}
+
+/**
+ * Streams every result set of a batch or stored procedure in order. Rows are
+ * yielded in chunks of at most `chunkSize` rows, tagged with the index of the
+ * result set they belong to.
+ *
+ * ```ts
+ * for await (const chunk of streamMulti(db, query.compile(db))) {
+ *   console.log(chunk.resultSetIndex, chunk.rows);
+ * }
+ * ```
+ */
+export async function* streamMulti<DB, R = UnknownRow>(
+  db: Kysely<DB>,
+  compiledQuery: CompiledQuery,
+  chunkSize: number = 100,
+): AsyncIterableIterator<ResultSetChunk<R>> {
+  const { connection, release } = await provideControlledConnection(db);
+
+  try {
+    yield* assertOdbcConnection(connection).streamMulti<R>(
+      compiledQuery,
+      chunkSize,
+    );
+  } finally {
+    release();
+  }
+}
+
+/**
+ * Executes `sql` once for every parameter set. All sets are bound once as
+ * column-wise parameter arrays (`SQL_ATTR_PARAMSET_SIZE`) and sent in a single
+ * call, which avoids both the 2100-parameter limit of multi-row inserts and
+ * rebuilding the bindings for every row. Values are mapped with the same rules
+ * as regular query parameters.
+ *
+ * Parameter sets that fail do not abort the others: their status is `"error"`
+ * and their errors are collected in `errors`. The call only rejects when no
+ * parameter set succeeded.
+ *
+ * ```ts
+ * const { numAffectedRows, rowStatus } = await executeBulk(
+ *   db,
+ *   "INSERT INTO person (first_name, age) VALUES (?, ?)",
+ *   people.map((p) => [p.firstName, p.age]),
+ * );
+ * ```
+ */
+export async function executeBulk<DB>(
+  db: Kysely<DB>,
+  sql: string,
+  parameterSets: readonly (readonly unknown[])[],
+): Promise<BulkResult> {
+  return await db.getExecutor().provideConnection(async (connection) => {
+    return await assertOdbcConnection(connection).executeBulk(
+      sql,
+      parameterSets,
+    );
+  });
+}
+
+/**
+ * Bulk copies `rows` into `table` with the bcp_* functions of the driver and
+ * returns the number of rows copied. The rows are sent over a dedicated
+ * connection with `SQL_COPT_SS_BCP` enabled, outside of the pool and of any
+ * transaction `db` belongs to. Rows are committed every `batchSize` rows, so a
+ * failure only rolls back the current batch.
+ *
+ * ```ts
+ * const count = await bulkLoad(
+ *   db,
+ *   "dbo.events",
+ *   ["id", "name", "created_at"],
+ *   readEvents(),
+ *   { batchSize: 50_000 },
+ * );
+ * ```
+ */
+export async function bulkLoad<DB>(
+  db: Kysely<DB>,
+  table: string,
+  columns: readonly string[],
+  rows: AsyncIterable<BulkLoadRow> | Iterable<BulkLoadRow>,
+  options?: BulkLoadOptions,
+): Promise<number> {
+  // The pooled connection is only needed to create the dedicated one, so it
+  // is released before any row is sent.
+  const connection = await db.getExecutor().provideConnection((connection) =>
+    Promise.resolve(assertOdbcConnection(connection).createBulkCopyConnection())
+  );
+
+  try {
+    await connection.connect();
+    return await connection.bulkLoad(table, columns, rows, options);
+  } finally {
+    await connection.destroy();
+  }
+}
+
+/**
+ * Calls a stored procedure through the ODBC `{? = call ...}` escape and returns
+ * its return code, the values of its `OUTPUT` parameters and all of its result
+ * sets.
+ *
+ * Parameters are passed positionally, in the order of the object's keys, so
+ * they must be listed in the order the procedure declares them. Plain values
+ * are bound as input parameters; `OUTPUT` and `INPUT_OUTPUT` parameters are
+ * declared with `output()` and `inputOutput()`.
+ *
+ * ```ts
+ * const { returnValue, outputs } = await callProcedure(db, "dbo.CreateOrder", {
+ *   customerId: 42,
+ *   orderId: output("int"),
+ *   note: inputOutput("nvarchar", "rush", { length: 200 }),
+ * });
+ *
+ * outputs.orderId; // number | null
+ * ```
+ */
+export async function callProcedure<
+  DB,
+  P extends Record<string, unknown>,
+  R = UnknownRow,
+>(
+  db: Kysely<DB>,
+  name: string,
+  params: P,
+): Promise<ProcedureResult<P, R>> {
+  validateObjectName(name, "procedure");
+
+  const keys = Object.keys(params);
+  const markers = keys.map(() => "?").join(", ");
+  const compiledQuery = CompiledQuery.raw(
+    `{? = call ${name}(${markers})}`,
+    [output("int"), ...keys.map((key) => params[key])],
+  );
+
+  const { resultSets, outputs } = await db.getExecutor().provideConnection(
+    async (connection) => {
+      return await assertOdbcConnection(connection).executeProcedure<R>(
+        compiledQuery,
+        ["@RETURN_VALUE", ...keys],
+      );
+    },
+  );
+
+  // Parameter 1 is the return value, the declared parameters follow.
+  const namedOutputs: Record<string, unknown> = {};
+  keys.forEach((key, i) => {
+    if (outputs.has(i + 2)) namedOutputs[key] = outputs.get(i + 2);
+  });
+
+  return {
+    returnValue: (outputs.get(1) ?? null) as number | null,
+    outputs: namedOutputs as ProcedureOutputs<P>,
+    resultSets,
+  };
+}
+
+/**
+ * Runs `callback` in a transaction and reruns the whole transaction when it
+ * fails with a deadlock or a transient error. Every attempt begins a new
+ * transaction on a connection acquired from the pool, so `callback` must not
+ * have side effects outside of the database it cannot repeat.
+ *
+ * The retry policy is taken from the `retry` option of the dialect config and
+ * can be overridden per call.
+ *
+ * ```ts
+ * const order = await retryTransaction(db, async (trx) => {
+ *   await trx.updateTable("stock").set(...).execute();
+ *   return await trx.insertInto("order").values(...).returningAll()
+ *     .executeTakeFirstOrThrow();
+ * }, { isolationLevel: "serializable" });
+ * ```
+ */
+export async function retryTransaction<DB, T>(
+  db: Kysely<DB>,
+  callback: (trx: Transaction<DB>) => Promise<T>,
+  options: RetryTransactionOptions = {},
+): Promise<T> {
+  const { isolationLevel, ...retryOptions } = options;
+  const { adapter } = db.getExecutor();
+  if (!(adapter instanceof OdbcMssqlAdapter)) {
+    throw new Error("This helper requires a MssqlOdbcDialect");
+  }
+
+  return await withRetry(async () => {
+    let builder = db.transaction();
+    if (isolationLevel) builder = builder.setIsolationLevel(isolationLevel);
+    return await builder.execute(callback);
+  }, { ...adapter.retryOptions, ...retryOptions });
+}
+
+/**
+ * Acquires a connection that stays reserved until `release` is called, for
+ * work that cannot be wrapped in a single callback (e.g. generators).
+ */
+async function provideControlledConnection<DB>(
+  db: Kysely<DB>,
+): Promise<{ connection: unknown; release: () => void }> {
+  const connectionDefer = Promise.withResolvers<unknown>();
+  const releaseDefer = Promise.withResolvers<void>();
+
+  db.getExecutor()
+    .provideConnection(async (connection) => {
+      connectionDefer.resolve(connection);
+      return await releaseDefer.promise;
+    })
+    .catch((error) => connectionDefer.reject(error));
+
+  return {
+    connection: await connectionDefer.promise,
+    release: () => releaseDefer.resolve(),
+  };
+}
+
+function assertOdbcConnection(connection: unknown): OdbcConnection {
+  if (!(connection instanceof OdbcConnection)) {
+    throw new Error("This helper requires a MssqlOdbcDialect connection");
+  }
+  return connection;
+}
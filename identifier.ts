@@ -0,0 +1,13 @@
+// Up to four dot-separated parts, each a regular or a bracketed identifier.
+const OBJECT_NAME =
+  /^(?:\[[\w @$#-]+\]|[a-zA-Z_#][\w@$#]*)(?:\.(?:\[[\w @$#-]+\]|[a-zA-Z_#][\w@$#]*)){0,3}$/;
+
+/**
+ * Throws unless `name` is a plain (optionally qualified) object name that is
+ * safe to embed in SQL text.
+ */
+export function validateObjectName(name: string, kind: string): void {
+  if (!OBJECT_NAME.test(name)) {
+    throw new Error(`Security Error: Invalid ${kind} name "${name}"`);
+  }
+}
@@ -1,8 +1,11 @@
+import { OdbcError, QueryTimeoutError } from "./errors.ts";
+
 export enum HandleType {
   // sql.h
   SQL_HANDLE_ENV = 1,
   SQL_HANDLE_DBC = 2,
   SQL_HANDLE_STMT = 3,
+  SQL_HANDLE_DESC = 4,
 }
 
 export enum SQLRETURN {
@@ -28,6 +31,7 @@ export enum SQLType {
   SQL_INTEGER = 4,
   SQL_BIGINT = -5,
   SQL_FLOAT = 6,
+  SQL_REAL = 7,
   SQL_BIT = -7,
   SQL_VARCHAR = 12,
   SQL_LONGVARCHAR = -1,
@@ -43,38 +47,130 @@ export enum SQLType {
   SQL_LONGVARBINARY = -4,
   SQL_TINYINT = -6,
   SQL_SMALLINT = 5,
+  SQL_GUID = -11,
+  // msodbcsql.h
+  SQL_SS_VARIANT = -150,
+  SQL_SS_UDT = -151,
+  SQL_SS_XML = -152,
+  SQL_SS_TIME2 = -154,
+  SQL_SS_TIMESTAMPOFFSET = -155,
 }
 
 export enum CType {
   // sqlext.h
   SQL_C_CHAR = SQLType.SQL_CHAR,
+  SQL_C_NUMERIC = SQLType.SQL_NUMERIC,
   SQL_C_DOUBLE = 8,
+  SQL_C_FLOAT = SQLType.SQL_REAL,
   SQL_C_BIT = SQLType.SQL_BIT,
   SQL_C_BINARY = SQLType.SQL_BINARY,
   SQL_C_SLONG = -16,
   SQL_C_SBIGINT = SQLType.SQL_BIGINT + SQL_SIGNED_OFFSET,
   SQL_C_UTINYINT = SQLType.SQL_TINYINT + SQL_UNSIGNED_OFFSET,
   SQL_C_SSHORT = SQLType.SQL_SMALLINT + SQL_SIGNED_OFFSET,
+  SQL_C_TYPE_DATE = SQLType.SQL_TYPE_DATE,
   SQL_C_TYPE_TIMESTAMP = SQLType.SQL_TYPE_TIMESTAMP,
+  SQL_C_GUID = SQLType.SQL_GUID,
   // sqlucode.h
   SQL_C_WCHAR = SQLType.SQL_WCHAR,
+  // msodbcsql.h
+  SQL_C_SS_TIME2 = 0x4000,
+  SQL_C_SS_TIMESTAMPOFFSET = 0x4001,
+}
+
+export type ExecuteResult = {
+  colCount: number;
+  numAffectedRows: bigint;
+  /**
+   * Set when data-at-execution parameters have to be sent with
+   * `SQLParamData`/`SQLPutData` before the statement runs.
+   */
+  needsData?: boolean;
+};
+
+/**
+ * A diagnostic record of an error or informational message. The SQL Server
+ * specific fields are set when the driver provides them.
+ */
+export type DiagRecord = {
+  sqlState: string;
+  nativeError: number;
+  message: string;
+  severity?: number;
+  state?: number;
+  lineNumber?: number;
+  procedureName?: string;
+  serverName?: string;
+};
+
+enum DiagField {
+  // msodbcsql.h
+  SQL_DIAG_SS_MSGSTATE = -1150,
+  SQL_DIAG_SS_SEVERITY = -1151,
+  SQL_DIAG_SS_SRVNAME = -1152,
+  SQL_DIAG_SS_PROCNAME = -1153,
+  SQL_DIAG_SS_LINE = -1154,
+}
+
+export enum SQLParamStatus {
+  // sqlext.h
+  SQL_PARAM_SUCCESS = 0,
+  SQL_PARAM_DIAG_UNAVAILABLE = 1,
+  SQL_PARAM_ERROR = 5,
+  SQL_PARAM_SUCCESS_WITH_INFO = 6,
+  SQL_PARAM_UNUSED = 7,
 }
 
 export const SQL_PARAM_INPUT = 1;
+export const SQL_PARAM_INPUT_OUTPUT = 2;
+export const SQL_PARAM_OUTPUT = 4;
 export const SQL_NULL_DATA = -1;
 export const SQL_NO_TOTAL = -4;
 const SQL_ATTR_ODBC_VERSION = 200;
 
 export const SQL_DRIVER_NOPROMPT = 0;
 export const SQL_NTS = -3;
+export const SQL_DATA_AT_EXEC = -2;
 
 export const SQL_ATTR_TXN_ISOLATION = 108;
+// msodbcsql.h
+export const SQL_COPT_SS_BCP = 1219;
+export const SQL_BCP_ON = 1n;
 export const SQL_ATTR_AUTOCOMMIT = 102;
 
 export const SQL_AUTOCOMMIT_OFF = 0n;
 export const SQL_AUTOCOMMIT_ON = 1n;
+export const SQL_IS_POINTER = -4;
+export const SQL_IS_UINTEGER = -5;
 export const SQL_IS_INTEGER = -6;
 
+export const SQL_ATTR_QUERY_TIMEOUT = 0;
+export const SQL_ATTR_PARAM_STATUS_PTR = 20;
+export const SQL_ATTR_PARAMSET_SIZE = 22;
+export const SQL_ATTR_ROWS_FETCHED_PTR = 26;
+export const SQL_ATTR_ROW_ARRAY_SIZE = 27;
+const SQL_ATTR_APP_PARAM_DESC = 10011;
+
+enum DescField {
+  // sql.h
+  SQL_DESC_TYPE = 1002,
+  SQL_DESC_PRECISION = 1005,
+  SQL_DESC_SCALE = 1006,
+  SQL_DESC_DATA_PTR = 1010,
+}
+
+export enum BcpType {
+  // msodbcsql.h
+  SQLBIT = 0x32,
+  SQLFLT8 = 0x3e,
+  SQLINT8 = 0x7f,
+  SQLBIGVARBINARY = 0xa5,
+  SQLNCHAR = 0xef,
+}
+
+const BCP_SUCCEED = 1;
+const BCP_DB_IN = 1;
+
 export enum TxIsolationLevel {
   SQL_TRANSACTION_READ_UNCOMMITTED = 1,
   SQL_TRANSACTION_READ_COMMITTED = 2,
@@ -87,6 +183,24 @@ export enum TxCompletionType {
   SQL_ROLLBACK = 1,
 }
 
+export enum ColAttribute {
+  // sqlext.h
+  SQL_DESC_TYPE_NAME = 14,
+  SQL_DESC_BASE_COLUMN_NAME = 22,
+  SQL_DESC_BASE_TABLE_NAME = 23,
+  // msodbcsql.h
+  SQL_CA_SS_VARIANT_TYPE = 1215,
+  SQL_CA_SS_UDT_TYPE_NAME = 1219,
+}
+
+export enum FreeStmtOption {
+  // sql.h
+  SQL_CLOSE = 0,
+  SQL_DROP = 1,
+  SQL_UNBIND = 2,
+  SQL_RESET_PARAMS = 3,
+}
+
 const libDefinitions = {
   // --- ASYNC (I/O BOUND) ---
   SQLDriverConnectW: {
@@ -119,6 +233,22 @@ const libDefinitions = {
     result: "i16", // SQLRETURN
     nonblocking: true,
   },
+  SQLPrepareW: {
+    parameters: [
+      "pointer", // SQLHSTMT <- in
+      "buffer", // SQLWCHAR * <- in
+      "i32", // SQLINTEGER <- in
+    ],
+    result: "i16", // SQLRETURN
+    nonblocking: true,
+  },
+  SQLExecute: {
+    parameters: [
+      "pointer", // SQLHSTMT <- in
+    ],
+    result: "i16", // SQLRETURN
+    nonblocking: true,
+  },
   SQLFetch: {
     parameters: [
       "pointer", // SQLHSTMT <- in
@@ -126,6 +256,30 @@ const libDefinitions = {
     result: "i16",
     nonblocking: true,
   },
+  SQLParamData: {
+    parameters: [
+      "pointer", // SQLHSTMT <- in
+      "buffer", // SQLPOINTER* -> out
+    ],
+    result: "i16", // SQLRETURN
+    nonblocking: true,
+  },
+  SQLPutData: {
+    parameters: [
+      "pointer", // SQLHSTMT <- in
+      "buffer", // SQLPOINTER <- in
+      "i64", // SQLLEN <- in
+    ],
+    result: "i16", // SQLRETURN
+    nonblocking: true,
+  },
+  SQLMoreResults: {
+    parameters: [
+      "pointer", // SQLHSTMT <- in
+    ],
+    result: "i16",
+    nonblocking: true,
+  },
   SQLGetData: {
     parameters: [
       "pointer", // SQLHSTMT <- in
@@ -147,7 +301,45 @@ const libDefinitions = {
     result: "i16",
     nonblocking: true,
   },
+  bcp_initW: {
+    parameters: [
+      "pointer", // HDBC <- in
+      "buffer", // LPCWSTR <- in
+      "pointer", // LPCWSTR <- in (always NULL)
+      "pointer", // LPCWSTR <- in (always NULL)
+      "i32", // INT <- in
+    ],
+    result: "i32", // RETCODE
+    nonblocking: true,
+  },
+  bcp_sendrow: {
+    parameters: [
+      "pointer", // HDBC <- in
+    ],
+    result: "i32", // RETCODE
+    nonblocking: true,
+  },
+  bcp_batch: {
+    parameters: [
+      "pointer", // HDBC <- in
+    ],
+    result: "i32", // DBINT
+    nonblocking: true,
+  },
+  bcp_done: {
+    parameters: [
+      "pointer", // HDBC <- in
+    ],
+    result: "i32", // DBINT
+    nonblocking: true,
+  },
   // --- SYNC (MEMORY BOUND) ---
+  SQLCancel: {
+    parameters: [
+      "pointer", // SQLHSTMT <- in
+    ],
+    result: "i16", // SQLRETURN
+  },
   SQLAllocHandle: {
     parameters: [
       "i16", // SQLSMALLINT <- in
@@ -169,6 +361,18 @@ const libDefinitions = {
     ],
     result: "i16", // SQLRETURN
   },
+  SQLGetDiagFieldW: {
+    parameters: [
+      "i16", // SQLSMALLINT <- in
+      "pointer", // SQLHANDLE <- in
+      "i16", // SQLSMALLINT <- in
+      "i16", // SQLSMALLINT <- in
+      "buffer", // SQLPOINTER -> out
+      "i16", // SQLSMALLINT <- in
+      "buffer", // SQLSMALLINT * -> out
+    ],
+    result: "i16", // SQLRETURN
+  },
   SQLFreeHandle: {
     parameters: [
       "i16", // HandleType <- in
@@ -176,6 +380,13 @@ const libDefinitions = {
     ],
     result: "i16", // SQLRETURN
   },
+  SQLFreeStmt: {
+    parameters: [
+      "pointer", // SQLHSTMT <- in
+      "u16", // SQLUSMALLINT <- in
+    ],
+    result: "i16", // SQLRETURN
+  },
   SQLRowCount: {
     parameters: [
       "pointer", // SQLHSTMT <- in
@@ -219,6 +430,20 @@ const libDefinitions = {
     ],
     result: "i16", // SQLRETURN
   },
+  SQLColAttributeW: {
+    parameters: [
+      "pointer", // SQLHSTMT <- in
+      "u16", // SQLUSMALLINT <- in
+      "u16", // SQLUSMALLINT <- in
+      "buffer", // SQLPOINTER -> out
+      "i16", // SQLSMALLINT <- in
+      "buffer", // SQLSMALLINT * -> out
+      "buffer", // SQLLEN * -> out
+    ],
+    result: "i16", // SQLRETURN
+    // May query the server for base table and column names.
+    nonblocking: true,
+  },
   SQLBindCol: {
     parameters: [
       "pointer", // SQLHSTMT <- in
@@ -239,6 +464,35 @@ const libDefinitions = {
     ],
     result: "i16",
   },
+  SQLGetStmtAttrW: {
+    parameters: [
+      "pointer", // SQLHSTMT <- in
+      "i32", // SQLINTEGER <- in
+      "buffer", // SQLPOINTER -> out
+      "i32", // SQLINTEGER <- in
+      "pointer", // SQLINTEGER * -> out
+    ],
+    result: "i16",
+  },
+  SQLSetDescFieldW: {
+    parameters: [
+      "pointer", // SQLHDESC <- in
+      "i16", // SQLSMALLINT <- in
+      "i16", // SQLSMALLINT <- in
+      "pointer", // SQLPOINTER <- in
+      "i32", // SQLINTEGER <- in
+    ],
+    result: "i16",
+  },
+  SQLSetStmtAttrW: {
+    parameters: [
+      "pointer", // SQLHSTMT <- in
+      "i32", // SQLINTEGER <- in
+      "pointer", // SQLPOINTER <- in
+      "i32", // SQLINTEGER <- in
+    ],
+    result: "i16",
+  },
   SQLSetEnvAttr: {
     parameters: [
       "pointer", // SQLHENV <- in
@@ -248,6 +502,35 @@ const libDefinitions = {
     ],
     result: "i16",
   },
+  bcp_bind: {
+    parameters: [
+      "pointer", // HDBC <- in
+      "buffer", // LPCBYTE <- in
+      "i32", // INT <- in
+      "i32", // DBINT <- in
+      "pointer", // LPCBYTE <- in (always NULL)
+      "i32", // INT <- in
+      "i32", // INT <- in
+      "i32", // INT <- in
+    ],
+    result: "i32", // RETCODE
+  },
+  bcp_colptr: {
+    parameters: [
+      "pointer", // HDBC <- in
+      "buffer", // LPCBYTE <- in
+      "i32", // INT <- in
+    ],
+    result: "i32", // RETCODE
+  },
+  bcp_collen: {
+    parameters: [
+      "pointer", // HDBC <- in
+      "i32", // DBINT <- in
+      "i32", // INT <- in
+    ],
+    result: "i32", // RETCODE
+  },
   SQLGetInfoW: {
     parameters: [
       "pointer", // SQLHDBC <- in
@@ -263,6 +546,10 @@ const libDefinitions = {
 export class OdbcLib {
   readonly #dylib: Deno.DynamicLibrary<typeof libDefinitions>;
   readonly #symbols: OdbcSymbols;
+  readonly #infoHandlers: WeakMap<
+    Deno.PointerObject,
+    (records: DiagRecord[]) => void
+  > = new WeakMap();
 
   constructor(libPath: string) {
     this.#dylib = Deno.dlopen(libPath, libDefinitions);
@@ -322,11 +609,11 @@ export class OdbcLib {
       status !== SQLRETURN.SQL_SUCCESS &&
       status !== SQLRETURN.SQL_SUCCESS_WITH_INFO
     ) {
-      const errorDetail = this.getOdbcError(
+      throw this.#odbcError(
+        "SQLSetEnvAttr",
         HandleType.SQL_HANDLE_ENV,
         envHandle,
       );
-      throw new Error(`SQLSetEnvAttr failed:\n${errorDetail}`);
     }
   }
 
@@ -352,11 +639,11 @@ export class OdbcLib {
         status !== SQLRETURN.SQL_SUCCESS &&
         status !== SQLRETURN.SQL_SUCCESS_WITH_INFO
       ) {
-        const errorDetail = this.getOdbcError(
+        throw this.#odbcError(
+          "SQLDriverConnectW",
           HandleType.SQL_HANDLE_DBC,
           dbcHandle,
         );
-        throw new Error(`SQLDriverConnectW failed:\n${errorDetail}`);
       }
     } finally {
       // prevent GC
@@ -371,18 +658,18 @@ export class OdbcLib {
       status !== SQLRETURN.SQL_SUCCESS &&
       status !== SQLRETURN.SQL_SUCCESS_WITH_INFO
     ) {
-      const errorDetail = this.getOdbcError(
+      throw this.#odbcError(
+        "SQLDisconnect",
         HandleType.SQL_HANDLE_DBC,
         dbcHandle,
       );
-      throw new Error(`SQLDisconnect failed:\n${errorDetail}`);
     }
   }
 
   async execDirect(
     rawSql: string,
     stmtHandle: Deno.PointerValue,
-  ): Promise<{ colCount: number; numAffectedRows: bigint }> {
+  ): Promise<ExecuteResult> {
     const rawSqlEncoded = strToBuf(rawSql);
 
     try {
@@ -392,20 +679,24 @@ export class OdbcLib {
         SQL_NTS,
       );
 
+      if (status === SQLRETURN.SQL_NEED_DATA) {
+        return { colCount: 0, numAffectedRows: -1n, needsData: true };
+      }
+
       if (
         status !== SQLRETURN.SQL_SUCCESS &&
         status !== SQLRETURN.SQL_SUCCESS_WITH_INFO &&
         status !== SQLRETURN.SQL_NO_DATA
       ) {
-        throw new Error(
-          `SQLExecDirectW failed: ${
-            this.getOdbcError(
-              HandleType.SQL_HANDLE_STMT,
-              stmtHandle,
-            )
-          }\nSQL: ${rawSql}`,
+        throw this.#odbcError(
+          "SQLExecDirectW",
+          HandleType.SQL_HANDLE_STMT,
+          stmtHandle,
+          rawSql,
         );
       }
+
+      this.#reportInfo(status, stmtHandle);
     } finally {
       // prevent GC
       rawSqlEncoded.byteLength;
@@ -417,126 +708,389 @@ export class OdbcLib {
     };
   }
 
-  rowCount(stmtHandle: Deno.PointerValue): bigint {
-    const rowCountBuf = new BigInt64Array(1);
+  async prepare(
+    rawSql: string,
+    stmtHandle: Deno.PointerValue,
+  ): Promise<void> {
+    const rawSqlEncoded = strToBuf(rawSql);
 
-    const status = this.#symbols.SQLRowCount(
-      stmtHandle,
-      rowCountBuf,
-    );
+    try {
+      const status = await this.#symbols.SQLPrepareW(
+        stmtHandle,
+        rawSqlEncoded,
+        SQL_NTS,
+      );
+
+      if (
+        status !== SQLRETURN.SQL_SUCCESS &&
+        status !== SQLRETURN.SQL_SUCCESS_WITH_INFO
+      ) {
+        throw this.#odbcError(
+          "SQLPrepareW",
+          HandleType.SQL_HANDLE_STMT,
+          stmtHandle,
+          rawSql,
+        );
+      }
+    } finally {
+      // prevent GC
+      rawSqlEncoded.byteLength;
+    }
+  }
+
+  /**
+   * Executes a prepared statement. `rawSql` is only used to describe a
+   * failure.
+   */
+  async execute(
+    stmtHandle: Deno.PointerValue,
+    rawSql?: string,
+  ): Promise<ExecuteResult> {
+    const status = await this.#symbols.SQLExecute(stmtHandle);
+
+    if (status === SQLRETURN.SQL_NEED_DATA) {
+      return { colCount: 0, numAffectedRows: -1n, needsData: true };
+    }
 
     if (
       status !== SQLRETURN.SQL_SUCCESS &&
-      status !== SQLRETURN.SQL_SUCCESS_WITH_INFO
+      status !== SQLRETURN.SQL_SUCCESS_WITH_INFO &&
+      status !== SQLRETURN.SQL_NO_DATA
     ) {
-      throw new Error(`SQLRowCount failed: ${SQLRETURN[status]}`);
+      throw this.#odbcError(
+        "SQLExecute",
+        HandleType.SQL_HANDLE_STMT,
+        stmtHandle,
+        rawSql,
+      );
     }
 
-    return rowCountBuf[0];
-  }
-
-  getOdbcError(
-    handleType: HandleType,
-    handle: Deno.PointerValue,
-  ): string {
-    const errors: string[] = [];
-    let i = 1;
+    this.#reportInfo(status, stmtHandle);
 
-    while (true) {
-      const stateBuf = new Uint16Array(6);
-      const nativeErrBuf = new Int32Array(1);
-      const msgBuf = new Uint16Array(512);
-      const msgLenBuf = new Int16Array(1);
+    return {
+      colCount: this.numResultCols(stmtHandle),
+      numAffectedRows: this.rowCount(stmtHandle),
+    };
+  }
 
-      const status = this.#symbols.SQLGetDiagRecW(
-        handleType,
-        handle,
-        i,
-        stateBuf,
-        nativeErrBuf,
-        msgBuf,
-        msgBuf.length,
-        msgLenBuf,
-      );
+  /**
+   * Returns the token (the `ParameterValuePtr` it was bound with) of the next
+   * data-at-execution parameter, or `null` once the statement has been
+   * executed.
+   */
+  async paramData(stmtHandle: Deno.PointerValue): Promise<bigint | null> {
+    const tokenBuf = new BigUint64Array(1);
 
-      if (status === SQLRETURN.SQL_NO_DATA) break;
+    const status = await this.#symbols.SQLParamData(stmtHandle, tokenBuf);
 
-      const state = bufToStr(stateBuf, 5);
-      const msg = bufToStr(msgBuf, msgLenBuf[0]);
+    if (status === SQLRETURN.SQL_NEED_DATA) return tokenBuf[0];
 
-      errors.push(`[${state}] ${msg} (Code: ${nativeErrBuf[0]})`);
-      i++;
+    if (
+      status !== SQLRETURN.SQL_SUCCESS &&
+      status !== SQLRETURN.SQL_SUCCESS_WITH_INFO &&
+      status !== SQLRETURN.SQL_NO_DATA
+    ) {
+      throw this.#odbcError(
+        "SQLParamData",
+        HandleType.SQL_HANDLE_STMT,
+        stmtHandle,
+      );
     }
 
-    return errors.length > 0 ? errors.join("\n") : "Unknown ODBC Error";
+    this.#reportInfo(status, stmtHandle);
+
+    return null;
   }
 
-  bindParameter(
+  async putData(
     stmtHandle: Deno.PointerValue,
-    i: number,
-    cType: CType,
-    sqlType: SQLType,
-    columnSize: bigint,
-    decimalDigits: number,
     buf: BufferSource,
-    bufLen: bigint,
-    indLenBuf: BufferSource,
-  ): void {
-    const status = this.#symbols.SQLBindParameter(
-      stmtHandle,
-      i,
-      SQL_PARAM_INPUT,
-      cType,
-      sqlType,
-      columnSize,
-      decimalDigits,
-      buf,
-      bufLen,
-      indLenBuf,
-    );
+    len: bigint,
+  ): Promise<void> {
+    const status = await this.#symbols.SQLPutData(stmtHandle, buf, len);
 
     if (
       status !== SQLRETURN.SQL_SUCCESS &&
       status !== SQLRETURN.SQL_SUCCESS_WITH_INFO
     ) {
-      throw new Error(
-        `SQLBindParameter failed: ${
-          this.getOdbcError(
-            HandleType.SQL_HANDLE_STMT,
-            stmtHandle,
-          )
-        }\n`,
+      throw this.#odbcError(
+        "SQLPutData",
+        HandleType.SQL_HANDLE_STMT,
+        stmtHandle,
       );
     }
-  }
 
-  numResultCols(
-    stmtHandle: Deno.PointerValue,
-  ): number {
-    const colCountBuf = new Int16Array(1);
+    this.#reportInfo(status, stmtHandle);
+  }
 
-    const status = this.#symbols.SQLNumResultCols(
-      stmtHandle,
-      colCountBuf,
-    );
+  freeStmt(stmtHandle: Deno.PointerValue, option: FreeStmtOption): void {
+    const status = this.#symbols.SQLFreeStmt(stmtHandle, option);
 
     if (
       status !== SQLRETURN.SQL_SUCCESS &&
       status !== SQLRETURN.SQL_SUCCESS_WITH_INFO
     ) {
-      throw new Error(`SQLNumResultCols failed: ${SQLRETURN[status]}`);
+      throw this.#odbcError(
+        "SQLFreeStmt",
+        HandleType.SQL_HANDLE_STMT,
+        stmtHandle,
+      );
     }
-
-    return colCountBuf[0];
   }
 
-  describeCol(
-    stmtHandle: Deno.PointerValue,
-    colNumber: number,
-  ): {
-    colName: string;
-    sqlType: number;
-    colSize: bigint;
+  cancel(stmtHandle: Deno.PointerValue): void {
+    const status = this.#symbols.SQLCancel(stmtHandle);
+
+    if (
+      status !== SQLRETURN.SQL_SUCCESS &&
+      status !== SQLRETURN.SQL_SUCCESS_WITH_INFO
+    ) {
+      throw this.#odbcError(
+        "SQLCancel",
+        HandleType.SQL_HANDLE_STMT,
+        stmtHandle,
+      );
+    }
+  }
+
+  rowCount(stmtHandle: Deno.PointerValue): bigint {
+    const rowCountBuf = new BigInt64Array(1);
+
+    const status = this.#symbols.SQLRowCount(
+      stmtHandle,
+      rowCountBuf,
+    );
+
+    if (
+      status !== SQLRETURN.SQL_SUCCESS &&
+      status !== SQLRETURN.SQL_SUCCESS_WITH_INFO
+    ) {
+      throw new Error(`SQLRowCount failed: ${SQLRETURN[status]}`);
+    }
+
+    return rowCountBuf[0];
+  }
+
+  getDiagRecords(
+    handleType: HandleType,
+    handle: Deno.PointerValue,
+  ): DiagRecord[] {
+    const records: DiagRecord[] = [];
+    let i = 1;
+
+    while (true) {
+      const stateBuf = new Uint16Array(6);
+      const nativeErrBuf = new Int32Array(1);
+      let msgBuf = new Uint16Array(512);
+      const msgLenBuf = new Int16Array(1);
+
+      const getDiagRec = () =>
+        this.#symbols.SQLGetDiagRecW(
+          handleType,
+          handle,
+          i,
+          stateBuf,
+          nativeErrBuf,
+          msgBuf,
+          msgBuf.length,
+          msgLenBuf,
+        );
+
+      let status = getDiagRec();
+
+      // The message was truncated, read it again with a buffer that fits the
+      // reported length.
+      if (
+        status === SQLRETURN.SQL_SUCCESS_WITH_INFO &&
+        msgLenBuf[0] >= msgBuf.length
+      ) {
+        msgBuf = new Uint16Array(msgLenBuf[0] + 1);
+        status = getDiagRec();
+      }
+
+      if (
+        status !== SQLRETURN.SQL_SUCCESS &&
+        status !== SQLRETURN.SQL_SUCCESS_WITH_INFO
+      ) break;
+
+      const record: DiagRecord = {
+        sqlState: bufToStr(stateBuf, 5),
+        nativeError: nativeErrBuf[0],
+        message: bufToStr(msgBuf, msgLenBuf[0]),
+      };
+
+      if (handleType !== HandleType.SQL_HANDLE_ENV) {
+        const getInt = (field: DiagField) =>
+          this.#getDiagFieldInt(handleType, handle, i, field);
+        const getStr = (field: DiagField) =>
+          this.#getDiagFieldStr(handleType, handle, i, field);
+
+        record.severity = getInt(DiagField.SQL_DIAG_SS_SEVERITY);
+        record.state = getInt(DiagField.SQL_DIAG_SS_MSGSTATE);
+        record.lineNumber = getInt(DiagField.SQL_DIAG_SS_LINE);
+        record.procedureName = getStr(DiagField.SQL_DIAG_SS_PROCNAME);
+        record.serverName = getStr(DiagField.SQL_DIAG_SS_SRVNAME);
+      }
+
+      records.push(record);
+      i++;
+    }
+
+    return records;
+  }
+
+  #getDiagFieldInt(
+    handleType: HandleType,
+    handle: Deno.PointerValue,
+    recNumber: number,
+    field: DiagField,
+  ): number | undefined {
+    // Large enough for any integer field, zeroed so narrower fields read
+    // correctly as well.
+    const valueBuf = new Int32Array(2);
+
+    const status = this.#symbols.SQLGetDiagFieldW(
+      handleType,
+      handle,
+      recNumber,
+      field,
+      valueBuf,
+      0,
+      new Int16Array(1),
+    );
+
+    return status === SQLRETURN.SQL_SUCCESS ? valueBuf[0] : undefined;
+  }
+
+  #getDiagFieldStr(
+    handleType: HandleType,
+    handle: Deno.PointerValue,
+    recNumber: number,
+    field: DiagField,
+  ): string | undefined {
+    const CHAR_LIMIT = 256;
+
+    const valueBuf = new Uint16Array(CHAR_LIMIT);
+    const byteLenBuf = new Int16Array(1);
+
+    const status = this.#symbols.SQLGetDiagFieldW(
+      handleType,
+      handle,
+      recNumber,
+      field,
+      valueBuf,
+      valueBuf.byteLength,
+      byteLenBuf,
+    );
+
+    if (
+      status !== SQLRETURN.SQL_SUCCESS &&
+      status !== SQLRETURN.SQL_SUCCESS_WITH_INFO
+    ) {
+      return undefined;
+    }
+
+    const charLen = Math.min(byteLenBuf[0] / 2, CHAR_LIMIT - 1);
+    return bufToStr(valueBuf, charLen) || undefined;
+  }
+
+  /**
+   * Registers a handler for the informational diagnostic records that
+   * statement functions report with `SQL_SUCCESS_WITH_INFO`, e.g. `PRINT`
+   * output. Pass `undefined` to remove it.
+   */
+  setInfoHandler(
+    stmtHandle: Deno.PointerValue,
+    handler: ((records: DiagRecord[]) => void) | undefined,
+  ): void {
+    if (stmtHandle === null) return;
+
+    if (handler) {
+      this.#infoHandlers.set(stmtHandle, handler);
+    } else {
+      this.#infoHandlers.delete(stmtHandle);
+    }
+  }
+
+  #reportInfo(status: number, stmtHandle: Deno.PointerValue): void {
+    if (status !== SQLRETURN.SQL_SUCCESS_WITH_INFO || stmtHandle === null) {
+      return;
+    }
+
+    const handler = this.#infoHandlers.get(stmtHandle);
+    if (!handler) return;
+
+    // Truncation (01004) is part of reading data in chunks, not a message.
+    const records = this.getDiagRecords(HandleType.SQL_HANDLE_STMT, stmtHandle)
+      .filter(({ sqlState }) => sqlState !== "01004");
+
+    if (records.length > 0) handler(records);
+  }
+
+  bindParameter(
+    stmtHandle: Deno.PointerValue,
+    i: number,
+    ioType: number,
+    cType: CType,
+    sqlType: SQLType,
+    columnSize: bigint,
+    decimalDigits: number,
+    buf: BufferSource,
+    bufLen: bigint,
+    indLenBuf: BufferSource,
+  ): void {
+    const status = this.#symbols.SQLBindParameter(
+      stmtHandle,
+      i,
+      ioType,
+      cType,
+      sqlType,
+      columnSize,
+      decimalDigits,
+      buf,
+      bufLen,
+      indLenBuf,
+    );
+
+    if (
+      status !== SQLRETURN.SQL_SUCCESS &&
+      status !== SQLRETURN.SQL_SUCCESS_WITH_INFO
+    ) {
+      throw this.#odbcError(
+        "SQLBindParameter",
+        HandleType.SQL_HANDLE_STMT,
+        stmtHandle,
+      );
+    }
+  }
+
+  numResultCols(
+    stmtHandle: Deno.PointerValue,
+  ): number {
+    const colCountBuf = new Int16Array(1);
+
+    const status = this.#symbols.SQLNumResultCols(
+      stmtHandle,
+      colCountBuf,
+    );
+
+    if (
+      status !== SQLRETURN.SQL_SUCCESS &&
+      status !== SQLRETURN.SQL_SUCCESS_WITH_INFO
+    ) {
+      throw new Error(`SQLNumResultCols failed: ${SQLRETURN[status]}`);
+    }
+
+    return colCountBuf[0];
+  }
+
+  describeCol(
+    stmtHandle: Deno.PointerValue,
+    colNumber: number,
+  ): {
+    colName: string;
+    sqlType: number;
+    colSize: bigint;
     decimalDigits: number;
     isNullable: boolean;
   } {
@@ -565,13 +1119,10 @@ export class OdbcLib {
       status !== SQLRETURN.SQL_SUCCESS &&
       status !== SQLRETURN.SQL_SUCCESS_WITH_INFO
     ) {
-      throw new Error(
-        `SQLDescribeColW failed: ${
-          this.getOdbcError(
-            HandleType.SQL_HANDLE_STMT,
-            stmtHandle,
-          )
-        }\n`,
+      throw this.#odbcError(
+        "SQLDescribeColW",
+        HandleType.SQL_HANDLE_STMT,
+        stmtHandle,
       );
     }
 
@@ -586,6 +1137,80 @@ export class OdbcLib {
     };
   }
 
+  /**
+   * Returns a character attribute of a result column, an empty string when the
+   * driver does not provide it.
+   */
+  async colAttributeString(
+    stmtHandle: Deno.PointerValue,
+    colNumber: number,
+    fieldIdentifier: ColAttribute,
+  ): Promise<string> {
+    const CHAR_LIMIT = 256;
+
+    const valueBuf = new Uint16Array(CHAR_LIMIT);
+    const byteLenBuf = new Int16Array(1);
+
+    const status = await this.#symbols.SQLColAttributeW(
+      stmtHandle,
+      colNumber,
+      fieldIdentifier,
+      valueBuf,
+      valueBuf.byteLength,
+      byteLenBuf,
+      null,
+    );
+
+    if (
+      status !== SQLRETURN.SQL_SUCCESS &&
+      status !== SQLRETURN.SQL_SUCCESS_WITH_INFO
+    ) {
+      throw this.#odbcError(
+        "SQLColAttributeW",
+        HandleType.SQL_HANDLE_STMT,
+        stmtHandle,
+      );
+    }
+
+    // The length is in bytes and does not account for truncation.
+    const charLen = Math.min(byteLenBuf[0] / 2, CHAR_LIMIT - 1);
+    return bufToStr(valueBuf, charLen);
+  }
+
+  /**
+   * Returns a numeric attribute of a result column.
+   */
+  async colAttributeNumber(
+    stmtHandle: Deno.PointerValue,
+    colNumber: number,
+    fieldIdentifier: ColAttribute,
+  ): Promise<number> {
+    const valueBuf = new BigInt64Array(1);
+
+    const status = await this.#symbols.SQLColAttributeW(
+      stmtHandle,
+      colNumber,
+      fieldIdentifier,
+      null,
+      0,
+      null,
+      valueBuf,
+    );
+
+    if (
+      status !== SQLRETURN.SQL_SUCCESS &&
+      status !== SQLRETURN.SQL_SUCCESS_WITH_INFO
+    ) {
+      throw this.#odbcError(
+        "SQLColAttributeW",
+        HandleType.SQL_HANDLE_STMT,
+        stmtHandle,
+      );
+    }
+
+    return Number(valueBuf[0]);
+  }
+
   bindCol(
     stmtHandle: Deno.PointerValue,
     i: number,
@@ -607,13 +1232,10 @@ export class OdbcLib {
       status !== SQLRETURN.SQL_SUCCESS &&
       status !== SQLRETURN.SQL_SUCCESS_WITH_INFO
     ) {
-      throw new Error(
-        `SQLBindCol failed: ${
-          this.getOdbcError(
-            HandleType.SQL_HANDLE_STMT,
-            stmtHandle,
-          )
-        }\n`,
+      throw this.#odbcError(
+        "SQLBindCol",
+        HandleType.SQL_HANDLE_STMT,
+        stmtHandle,
       );
     }
   }
@@ -631,16 +1253,36 @@ export class OdbcLib {
       status !== SQLRETURN.SQL_SUCCESS &&
       status !== SQLRETURN.SQL_SUCCESS_WITH_INFO
     ) {
-      throw new Error(
-        `SQLFetch failed: ${
-          this.getOdbcError(
-            HandleType.SQL_HANDLE_STMT,
-            stmtHandle,
-          )
-        }\n`,
+      throw this.#odbcError("SQLFetch", HandleType.SQL_HANDLE_STMT, stmtHandle);
+    }
+
+    this.#reportInfo(status, stmtHandle);
+
+    return true;
+  }
+
+  async moreResults(
+    stmtHandle: Deno.PointerValue,
+  ): Promise<boolean> {
+    const status = await this.#symbols.SQLMoreResults(
+      stmtHandle,
+    );
+
+    if (status === SQLRETURN.SQL_NO_DATA) return false;
+
+    if (
+      status !== SQLRETURN.SQL_SUCCESS &&
+      status !== SQLRETURN.SQL_SUCCESS_WITH_INFO
+    ) {
+      throw this.#odbcError(
+        "SQLMoreResults",
+        HandleType.SQL_HANDLE_STMT,
+        stmtHandle,
       );
     }
 
+    this.#reportInfo(status, stmtHandle);
+
     return true;
   }
 
@@ -666,13 +1308,10 @@ export class OdbcLib {
       status !== SQLRETURN.SQL_SUCCESS_WITH_INFO &&
       status !== SQLRETURN.SQL_NO_DATA
     ) {
-      throw new Error(
-        `SQLGetData failed: ${
-          this.getOdbcError(
-            HandleType.SQL_HANDLE_STMT,
-            stmtHandle,
-          )
-        }`,
+      throw this.#odbcError(
+        "SQLGetData",
+        HandleType.SQL_HANDLE_STMT,
+        stmtHandle,
       );
     }
 
@@ -693,14 +1332,7 @@ export class OdbcLib {
       status !== SQLRETURN.SQL_SUCCESS &&
       status !== SQLRETURN.SQL_SUCCESS_WITH_INFO
     ) {
-      throw new Error(
-        `SQLEndTran failed: ${
-          this.getOdbcError(
-            HandleType.SQL_HANDLE_DBC,
-            dbcHandle,
-          )
-        }\n`,
-      );
+      throw this.#odbcError("SQLEndTran", HandleType.SQL_HANDLE_DBC, dbcHandle);
     }
   }
 
@@ -721,175 +1353,566 @@ export class OdbcLib {
       status !== SQLRETURN.SQL_SUCCESS &&
       status !== SQLRETURN.SQL_SUCCESS_WITH_INFO
     ) {
-      throw new Error(
-        `SQLSetConnectAttrW Error: ${
-          this.getOdbcError(
-            HandleType.SQL_HANDLE_DBC,
-            handle,
-          )
-        }`,
+      throw this.#odbcError(
+        "SQLSetConnectAttrW",
+        HandleType.SQL_HANDLE_DBC,
+        handle,
       );
     }
   }
 
-  close() {
-    this.#dylib.close();
+  setStmtAttr(
+    handle: Deno.PointerValue,
+    attribute: number,
+    valuePtr: Deno.PointerValue,
+    stringLength: number = SQL_IS_INTEGER,
+  ) {
+    const status = this.#symbols.SQLSetStmtAttrW(
+      handle,
+      attribute,
+      valuePtr,
+      stringLength,
+    );
+
+    if (
+      status !== SQLRETURN.SQL_SUCCESS &&
+      status !== SQLRETURN.SQL_SUCCESS_WITH_INFO
+    ) {
+      throw this.#odbcError(
+        "SQLSetStmtAttrW",
+        HandleType.SQL_HANDLE_STMT,
+        handle,
+      );
+    }
   }
-}
 
-interface OdbcSymbols {
   /**
-   * `SQLAllocHandle` allocates an environment, connection, statement, or descriptor handle.
+   * Sets the precision and scale of a `SQL_C_NUMERIC` parameter in the
+   * application parameter descriptor. `SQLBindParameter` leaves them at the
+   * driver defaults (scale 0), which would drop the fractional digits of the
+   * bound `SQL_NUMERIC_STRUCT`.
+   */
+  setNumericParamDesc(
+    stmtHandle: Deno.PointerValue,
+    paramNumber: number,
+    precision: number,
+    scale: number,
+    buf: Uint8Array<ArrayBuffer>,
+  ): void {
+    const descHandleBuf = new BigUint64Array(1);
+
+    const status = this.#symbols.SQLGetStmtAttrW(
+      stmtHandle,
+      SQL_ATTR_APP_PARAM_DESC,
+      descHandleBuf,
+      SQL_IS_POINTER,
+      null,
+    );
+
+    if (
+      status !== SQLRETURN.SQL_SUCCESS &&
+      status !== SQLRETURN.SQL_SUCCESS_WITH_INFO
+    ) {
+      throw this.#odbcError(
+        "SQLGetStmtAttrW",
+        HandleType.SQL_HANDLE_STMT,
+        stmtHandle,
+      );
+    }
+
+    const descHandle = Deno.UnsafePointer.create(descHandleBuf[0]);
+
+    // Changing any other field unbinds the data pointer, so it is set last.
+    const fields: [DescField, Deno.PointerValue][] = [
+      [
+        DescField.SQL_DESC_TYPE,
+        Deno.UnsafePointer.create(BigInt(CType.SQL_C_NUMERIC)),
+      ],
+      [
+        DescField.SQL_DESC_PRECISION,
+        Deno.UnsafePointer.create(BigInt(precision)),
+      ],
+      [DescField.SQL_DESC_SCALE, Deno.UnsafePointer.create(BigInt(scale))],
+      [DescField.SQL_DESC_DATA_PTR, Deno.UnsafePointer.of(buf)],
+    ];
+
+    for (const [field, value] of fields) {
+      const status = this.#symbols.SQLSetDescFieldW(
+        descHandle,
+        paramNumber,
+        field,
+        value,
+        0,
+      );
+
+      if (
+        status !== SQLRETURN.SQL_SUCCESS &&
+        status !== SQLRETURN.SQL_SUCCESS_WITH_INFO
+      ) {
+        throw this.#odbcError(
+          "SQLSetDescFieldW",
+          HandleType.SQL_HANDLE_DESC,
+          descHandle,
+        );
+      }
+    }
+  }
+
+  async bcpInit(dbcHandle: Deno.PointerValue, table: string): Promise<void> {
+    const tableEncoded = strToBuf(table);
+
+    try {
+      const status = await this.#symbols.bcp_initW(
+        dbcHandle,
+        tableEncoded,
+        null,
+        null,
+        BCP_DB_IN,
+      );
+
+      if (status !== BCP_SUCCEED) {
+        throw this.#odbcError(
+          "bcp_initW",
+          HandleType.SQL_HANDLE_DBC,
+          dbcHandle,
+        );
+      }
+    } finally {
+      // prevent GC
+      tableEncoded.byteLength;
+    }
+  }
+
+  bcpBind(
+    dbcHandle: Deno.PointerValue,
+    buf: BufferSource,
+    dataLen: number,
+    dataType: BcpType,
+    serverColumn: number,
+  ): void {
+    const status = this.#symbols.bcp_bind(
+      dbcHandle,
+      buf,
+      0, // no length prefix in the data
+      dataLen,
+      null, // no terminator
+      0,
+      dataType,
+      serverColumn,
+    );
+
+    if (status !== BCP_SUCCEED) {
+      throw this.#odbcError("bcp_bind", HandleType.SQL_HANDLE_DBC, dbcHandle);
+    }
+  }
+
+  bcpColPtr(
+    dbcHandle: Deno.PointerValue,
+    buf: BufferSource,
+    serverColumn: number,
+  ): void {
+    const status = this.#symbols.bcp_colptr(dbcHandle, buf, serverColumn);
+
+    if (status !== BCP_SUCCEED) {
+      throw this.#odbcError("bcp_colptr", HandleType.SQL_HANDLE_DBC, dbcHandle);
+    }
+  }
+
+  bcpColLen(
+    dbcHandle: Deno.PointerValue,
+    dataLen: number,
+    serverColumn: number,
+  ): void {
+    const status = this.#symbols.bcp_collen(dbcHandle, dataLen, serverColumn);
+
+    if (status !== BCP_SUCCEED) {
+      throw this.#odbcError("bcp_collen", HandleType.SQL_HANDLE_DBC, dbcHandle);
+    }
+  }
+
+  async bcpSendRow(dbcHandle: Deno.PointerValue): Promise<void> {
+    const status = await this.#symbols.bcp_sendrow(dbcHandle);
+
+    if (status !== BCP_SUCCEED) {
+      throw this.#odbcError(
+        "bcp_sendrow",
+        HandleType.SQL_HANDLE_DBC,
+        dbcHandle,
+      );
+    }
+  }
+
+  /**
+   * Commits the rows sent since the last batch and returns their count.
+   */
+  async bcpBatch(dbcHandle: Deno.PointerValue): Promise<number> {
+    const rowCount = await this.#symbols.bcp_batch(dbcHandle);
+
+    if (rowCount === -1) {
+      throw this.#odbcError("bcp_batch", HandleType.SQL_HANDLE_DBC, dbcHandle);
+    }
+
+    return rowCount;
+  }
+
+  /**
+   * Commits the remaining rows, ends the bulk copy and returns the number of
+   * rows committed by this last batch.
+   */
+  async bcpDone(dbcHandle: Deno.PointerValue): Promise<number> {
+    const rowCount = await this.#symbols.bcp_done(dbcHandle);
+
+    if (rowCount === -1) {
+      throw this.#odbcError("bcp_done", HandleType.SQL_HANDLE_DBC, dbcHandle);
+    }
+
+    return rowCount;
+  }
+
+  close() {
+    this.#dylib.close();
+  }
+
+  /**
+   * Builds the error for a failed ODBC function from the diagnostic records
+   * of its handle. A statement that ran past its query timeout (SQLSTATE
+   * `HYT00`) yields a {@link QueryTimeoutError}.
+   */
+  #odbcError(
+    functionName: string,
+    handleType: HandleType,
+    handle: Deno.PointerValue,
+    rawSql?: string,
+  ): OdbcError {
+    const records = this.getDiagRecords(handleType, handle);
+
+    let message = `${functionName} failed: ${formatDiagRecords(records)}`;
+    if (rawSql !== undefined) message += `\nSQL: ${rawSql}`;
+
+    const options = { functionName, records, sql: rawSql };
+    if (records.some(({ sqlState }) => sqlState === "HYT00")) {
+      return new QueryTimeoutError(message, options);
+    }
+    return new OdbcError(message, options);
+  }
+}
+
+interface OdbcSymbols {
+  /**
+   * `SQLAllocHandle` allocates an environment, connection, statement, or descriptor handle.
+   *
+   * ```cpp
+   * SQLRETURN SQLAllocHandle(
+   *       SQLSMALLINT   HandleType,
+   *       SQLHANDLE     InputHandle,
+   *       SQLHANDLE *   OutputHandlePtr)
+   * ```
+   *
+   * @see {@link https://learn.microsoft.com/en-us/sql/odbc/reference/syntax/sqlallochandle-function?view=sql-server-ver17}
+   */
+  SQLAllocHandle(
+    handleType: HandleType,
+    inputHandle: Deno.PointerValue,
+    outputHandlePtr: BufferSource,
+  ):
+    | SQLRETURN.SQL_SUCCESS
+    | SQLRETURN.SQL_SUCCESS_WITH_INFO
+    | SQLRETURN.SQL_INVALID_HANDLE
+    | SQLRETURN.SQL_ERROR;
+
+  /**
+   * `SQLFreeHandle` frees resources associated with a specific environment, connection, statement, or descriptor handle.
+   *
+   * ```cpp
+   * SQLRETURN SQLFreeHandle(
+   *      SQLSMALLINT   HandleType,
+   *      SQLHANDLE     Handle);
+   * ```
+   *
+   * @see {@link https://learn.microsoft.com/en-us/sql/odbc/reference/syntax/sqlfreehandle-function?view=sql-server-ver17}
+   */
+  SQLFreeHandle(
+    handleType: number,
+    handle: Deno.PointerValue,
+  ): SQLRETURN.SQL_SUCCESS | SQLRETURN.SQL_ERROR | SQLRETURN.SQL_INVALID_HANDLE;
+
+  /**
+   * `SQLDriverConnectW` is an alternative to SQLConnect. It supports data sources that require more connection information than the three arguments in SQLConnect, dialog boxes to prompt the user for all connection information, and data sources that are not defined in the system information. For more information, see Connecting with SQLDriverConnect.
+   *
+   * ```cpp
+   * SQLRETURN SQLDriverConnectW(
+   *      SQLHDBC         ConnectionHandle,
+   *      SQLHWND         WindowHandle,
+   *      SQLWCHAR *      InConnectionString,
+   *      SQLSMALLINT     StringLength1,
+   *      SQLWCHAR *      OutConnectionString,
+   *      SQLSMALLINT     BufferLength,
+   *      SQLSMALLINT *   StringLength2Ptr,
+   *      SQLUSMALLINT    DriverCompletion);
+   * ```
+   *
+   * @see {@link https://learn.microsoft.com/en-us/sql/odbc/reference/syntax/sqldriverconnect-function?view=sql-server-ver17}
+   */
+  SQLDriverConnectW(
+    connectionHandle: Deno.PointerValue,
+    windowHandle: Deno.PointerValue,
+    inConnectionString: BufferSource,
+    stringLength1: number,
+    outConnectionString: Deno.PointerValue,
+    bufferLength: number,
+    stringLength2Ptr: Deno.PointerValue,
+    driverCompletion: number,
+  ): Promise<
+    | SQLRETURN.SQL_SUCCESS
+    | SQLRETURN.SQL_SUCCESS_WITH_INFO
+    | SQLRETURN.SQL_NO_DATA
+    | SQLRETURN.SQL_ERROR
+    | SQLRETURN.SQL_INVALID_HANDLE
+    | SQLRETURN.SQL_STILL_EXECUTING
+  >;
+
+  /**
+   * `SQLDisconnect` closes the connection associated with a specific connection handle.
+   *
+   * ```cpp
+   * SQLRETURN SQLDisconnect(
+   *      SQLHDBC     ConnectionHandle);
+   * ```
+   *
+   * @see {@link https://learn.microsoft.com/en-us/sql/odbc/reference/syntax/sqldisconnect-function?view=sql-server-ver17}
+   */
+  SQLDisconnect(
+    connectionHandle: Deno.PointerValue,
+  ): Promise<
+    | SQLRETURN.SQL_SUCCESS
+    | SQLRETURN.SQL_SUCCESS_WITH_INFO
+    | SQLRETURN.SQL_ERROR
+    | SQLRETURN.SQL_INVALID_HANDLE
+    | SQLRETURN.SQL_STILL_EXECUTING
+  >;
+
+  /**
+   * `SQLGetDiagRecW` returns the current values of multiple fields of a diagnostic record that contains error, warning, and status information. Unlike `SQLGetDiagField`, which returns one diagnostic field per call, `SQLGetDiagRec` returns several commonly used fields of a diagnostic record, including the `SQLSTATE`, the native error code, and the diagnostic message text.
+   *
+   * ```cpp
+   * SQLRETURN SQLGetDiagRecW(
+   *      SQLSMALLINT     HandleType,
+   *      SQLHANDLE       Handle,
+   *      SQLSMALLINT     RecNumber,
+   *      SQLWCHAR *      SQLState,
+   *      SQLINTEGER *    NativeErrorPtr,
+   *      SQLWCHAR *      MessageText,
+   *      SQLSMALLINT     BufferLength,
+   *      SQLSMALLINT *   TextLengthPtr);
+   * ```
+   *
+   * @see {@link https://learn.microsoft.com/en-us/sql/odbc/reference/syntax/sqlgetdiagrec-function?view=sql-server-ver17}
+   */
+  SQLGetDiagRecW(
+    handleType: HandleType,
+    handle: Deno.PointerValue,
+    recNumber: number,
+    sqlState: BufferSource,
+    nativeErrorPtr: BufferSource,
+    messageText: BufferSource,
+    bufferLength: number,
+    textLengthPtr: BufferSource,
+  ):
+    | SQLRETURN.SQL_SUCCESS
+    | SQLRETURN.SQL_SUCCESS_WITH_INFO
+    | SQLRETURN.SQL_ERROR
+    | SQLRETURN.SQL_NO_DATA
+    | SQLRETURN.SQL_INVALID_HANDLE;
+
+  /**
+   * `SQLGetDiagFieldW` returns the current value of a field of a record of the diagnostic data structure (associated with a specified handle) that contains error, warning, and status information.
+   *
+   * ```cpp
+   * SQLRETURN SQLGetDiagFieldW(
+   *      SQLSMALLINT     HandleType,
+   *      SQLHANDLE       Handle,
+   *      SQLSMALLINT     RecNumber,
+   *      SQLSMALLINT     DiagIdentifier,
+   *      SQLPOINTER      DiagInfoPtr,
+   *      SQLSMALLINT     BufferLength,
+   *      SQLSMALLINT *   StringLengthPtr);
+   * ```
+   *
+   * @see {@link https://learn.microsoft.com/en-us/sql/odbc/reference/syntax/sqlgetdiagfield-function?view=sql-server-ver17}
+   */
+  SQLGetDiagFieldW(
+    handleType: HandleType,
+    handle: Deno.PointerValue,
+    recNumber: number,
+    diagIdentifier: number,
+    diagInfoPtr: BufferSource,
+    bufferLength: number,
+    stringLengthPtr: BufferSource,
+  ):
+    | SQLRETURN.SQL_SUCCESS
+    | SQLRETURN.SQL_SUCCESS_WITH_INFO
+    | SQLRETURN.SQL_ERROR
+    | SQLRETURN.SQL_NO_DATA
+    | SQLRETURN.SQL_INVALID_HANDLE;
+
+  /**
+   * SQLExecDirect executes a preparable statement, using the current values of the parameter marker variables if any parameters exist in the statement. SQLExecDirect is the fastest way to submit a SQL statement for one-time execution.
+   *
+   * ```cpp
+   * SQLRETURN SQLExecDirectW(
+   *      SQLHSTMT     StatementHandle,
+   *      SQLWCHAR *   StatementText,
+   *      SQLINTEGER   TextLength);
+   * ```
+   *
+   * @see {@link https://learn.microsoft.com/en-us/sql/odbc/reference/syntax/sqlexecdirect-function?view=sql-server-ver17}
+   */
+  SQLExecDirectW(
+    statementHandle: Deno.PointerValue,
+    statementText: BufferSource,
+    textLength: number,
+  ): Promise<
+    | SQLRETURN.SQL_SUCCESS
+    | SQLRETURN.SQL_SUCCESS_WITH_INFO
+    | SQLRETURN.SQL_NEED_DATA
+    | SQLRETURN.SQL_STILL_EXECUTING
+    | SQLRETURN.SQL_ERROR
+    | SQLRETURN.SQL_NO_DATA
+    | SQLRETURN.SQL_INVALID_HANDLE
+    | SQLRETURN.SQL_PARAM_DATA_AVAILABLE
+  >;
+
+  /**
+   * `SQLPrepareW` prepares an SQL string for execution.
    *
    * ```cpp
-   * SQLRETURN SQLAllocHandle(
-   *       SQLSMALLINT   HandleType,
-   *       SQLHANDLE     InputHandle,
-   *       SQLHANDLE *   OutputHandlePtr)
+   * SQLRETURN SQLPrepareW(
+   *      SQLHSTMT     StatementHandle,
+   *      SQLWCHAR *   StatementText,
+   *      SQLINTEGER   TextLength);
    * ```
    *
-   * @see {@link https://learn.microsoft.com/en-us/sql/odbc/reference/syntax/sqlallochandle-function?view=sql-server-ver17}
+   * @see {@link https://learn.microsoft.com/en-us/sql/odbc/reference/syntax/sqlprepare-function?view=sql-server-ver17}
    */
-  SQLAllocHandle(
-    handleType: HandleType,
-    inputHandle: Deno.PointerValue,
-    outputHandlePtr: BufferSource,
-  ):
+  SQLPrepareW(
+    statementHandle: Deno.PointerValue,
+    statementText: BufferSource,
+    textLength: number,
+  ): Promise<
     | SQLRETURN.SQL_SUCCESS
     | SQLRETURN.SQL_SUCCESS_WITH_INFO
+    | SQLRETURN.SQL_STILL_EXECUTING
+    | SQLRETURN.SQL_ERROR
     | SQLRETURN.SQL_INVALID_HANDLE
-    | SQLRETURN.SQL_ERROR;
+  >;
 
   /**
-   * `SQLFreeHandle` frees resources associated with a specific environment, connection, statement, or descriptor handle.
+   * `SQLExecute` executes a prepared statement, using the current values of the parameter marker variables if any parameter markers exist in the statement.
    *
    * ```cpp
-   * SQLRETURN SQLFreeHandle(
-   *      SQLSMALLINT   HandleType,
-   *      SQLHANDLE     Handle);
+   * SQLRETURN SQLExecute(
+   *      SQLHSTMT     StatementHandle);
    * ```
    *
-   * @see {@link https://learn.microsoft.com/en-us/sql/odbc/reference/syntax/sqlfreehandle-function?view=sql-server-ver17}
+   * @see {@link https://learn.microsoft.com/en-us/sql/odbc/reference/syntax/sqlexecute-function?view=sql-server-ver17}
    */
-  SQLFreeHandle(
-    handleType: number,
-    handle: Deno.PointerValue,
-  ): SQLRETURN.SQL_SUCCESS | SQLRETURN.SQL_ERROR | SQLRETURN.SQL_INVALID_HANDLE;
+  SQLExecute(statementHandle: Deno.PointerValue): Promise<
+    | SQLRETURN.SQL_SUCCESS
+    | SQLRETURN.SQL_SUCCESS_WITH_INFO
+    | SQLRETURN.SQL_NEED_DATA
+    | SQLRETURN.SQL_STILL_EXECUTING
+    | SQLRETURN.SQL_ERROR
+    | SQLRETURN.SQL_NO_DATA
+    | SQLRETURN.SQL_INVALID_HANDLE
+    | SQLRETURN.SQL_PARAM_DATA_AVAILABLE
+  >;
 
   /**
-   * `SQLDriverConnectW` is an alternative to SQLConnect. It supports data sources that require more connection information than the three arguments in SQLConnect, dialog boxes to prompt the user for all connection information, and data sources that are not defined in the system information. For more information, see Connecting with SQLDriverConnect.
+   * `SQLParamData` is used together with `SQLPutData` to supply parameter data at statement execution time.
    *
    * ```cpp
-   * SQLRETURN SQLDriverConnectW(
-   *      SQLHDBC         ConnectionHandle,
-   *      SQLHWND         WindowHandle,
-   *      SQLWCHAR *      InConnectionString,
-   *      SQLSMALLINT     StringLength1,
-   *      SQLWCHAR *      OutConnectionString,
-   *      SQLSMALLINT     BufferLength,
-   *      SQLSMALLINT *   StringLength2Ptr,
-   *      SQLUSMALLINT    DriverCompletion);
+   * SQLRETURN SQLParamData(
+   *      SQLHSTMT       StatementHandle,
+   *      SQLPOINTER *   ValuePtrPtr);
    * ```
    *
-   * @see {@link https://learn.microsoft.com/en-us/sql/odbc/reference/syntax/sqldriverconnect-function?view=sql-server-ver17}
+   * @see {@link https://learn.microsoft.com/en-us/sql/odbc/reference/syntax/sqlparamdata-function?view=sql-server-ver17}
    */
-  SQLDriverConnectW(
-    connectionHandle: Deno.PointerValue,
-    windowHandle: Deno.PointerValue,
-    inConnectionString: BufferSource,
-    stringLength1: number,
-    outConnectionString: Deno.PointerValue,
-    bufferLength: number,
-    stringLength2Ptr: Deno.PointerValue,
-    driverCompletion: number,
+  SQLParamData(
+    statementHandle: Deno.PointerValue,
+    valuePtrPtr: BufferSource,
   ): Promise<
     | SQLRETURN.SQL_SUCCESS
     | SQLRETURN.SQL_SUCCESS_WITH_INFO
+    | SQLRETURN.SQL_NEED_DATA
     | SQLRETURN.SQL_NO_DATA
+    | SQLRETURN.SQL_STILL_EXECUTING
     | SQLRETURN.SQL_ERROR
     | SQLRETURN.SQL_INVALID_HANDLE
-    | SQLRETURN.SQL_STILL_EXECUTING
+    | SQLRETURN.SQL_PARAM_DATA_AVAILABLE
   >;
 
   /**
-   * `SQLDisconnect` closes the connection associated with a specific connection handle.
+   * `SQLPutData` allows an application to send data for a parameter or column to the driver at statement execution time.
    *
    * ```cpp
-   * SQLRETURN SQLDisconnect(
-   *      SQLHDBC     ConnectionHandle);
+   * SQLRETURN SQLPutData(
+   *      SQLHSTMT     StatementHandle,
+   *      SQLPOINTER   DataPtr,
+   *      SQLLEN       StrLen_or_Ind);
    * ```
    *
-   * @see {@link https://learn.microsoft.com/en-us/sql/odbc/reference/syntax/sqldisconnect-function?view=sql-server-ver17}
+   * @see {@link https://learn.microsoft.com/en-us/sql/odbc/reference/syntax/sqlputdata-function?view=sql-server-ver17}
    */
-  SQLDisconnect(
-    connectionHandle: Deno.PointerValue,
+  SQLPutData(
+    statementHandle: Deno.PointerValue,
+    dataPtr: BufferSource,
+    strLenOrInd: bigint,
   ): Promise<
     | SQLRETURN.SQL_SUCCESS
     | SQLRETURN.SQL_SUCCESS_WITH_INFO
+    | SQLRETURN.SQL_STILL_EXECUTING
     | SQLRETURN.SQL_ERROR
     | SQLRETURN.SQL_INVALID_HANDLE
-    | SQLRETURN.SQL_STILL_EXECUTING
   >;
 
   /**
-   * `SQLGetDiagRecW` returns the current values of multiple fields of a diagnostic record that contains error, warning, and status information. Unlike `SQLGetDiagField`, which returns one diagnostic field per call, `SQLGetDiagRec` returns several commonly used fields of a diagnostic record, including the `SQLSTATE`, the native error code, and the diagnostic message text.
+   * `SQLFreeStmt` stops processing associated with a specific statement, closes any open cursors associated with the statement, discards pending results, or, optionally, frees all resources associated with the statement handle.
    *
    * ```cpp
-   * SQLRETURN SQLGetDiagRecW(
-   *      SQLSMALLINT     HandleType,
-   *      SQLHANDLE       Handle,
-   *      SQLSMALLINT     RecNumber,
-   *      SQLWCHAR *      SQLState,
-   *      SQLINTEGER *    NativeErrorPtr,
-   *      SQLWCHAR *      MessageText,
-   *      SQLSMALLINT     BufferLength,
-   *      SQLSMALLINT *   TextLengthPtr);
+   * SQLRETURN SQLFreeStmt(
+   *      SQLHSTMT       StatementHandle,
+   *      SQLUSMALLINT   Option);
    * ```
    *
-   * @see {@link https://learn.microsoft.com/en-us/sql/odbc/reference/syntax/sqlgetdiagrec-function?view=sql-server-ver17}
+   * @see {@link https://learn.microsoft.com/en-us/sql/odbc/reference/syntax/sqlfreestmt-function?view=sql-server-ver17}
    */
-  SQLGetDiagRecW(
-    handleType: HandleType,
-    handle: Deno.PointerValue,
-    recNumber: number,
-    sqlState: BufferSource,
-    nativeErrorPtr: BufferSource,
-    messageText: BufferSource,
-    bufferLength: number,
-    textLengthPtr: BufferSource,
+  SQLFreeStmt(
+    statementHandle: Deno.PointerValue,
+    option: FreeStmtOption,
   ):
     | SQLRETURN.SQL_SUCCESS
     | SQLRETURN.SQL_SUCCESS_WITH_INFO
     | SQLRETURN.SQL_ERROR
-    | SQLRETURN.SQL_NO_DATA
     | SQLRETURN.SQL_INVALID_HANDLE;
 
   /**
-   * SQLExecDirect executes a preparable statement, using the current values of the parameter marker variables if any parameters exist in the statement. SQLExecDirect is the fastest way to submit a SQL statement for one-time execution.
+   * `SQLCancel` cancels the processing on a statement.
    *
    * ```cpp
-   * SQLRETURN SQLExecDirectW(
-   *      SQLHSTMT     StatementHandle,
-   *      SQLWCHAR *   StatementText,
-   *      SQLINTEGER   TextLength);
+   * SQLRETURN SQLCancel(
+   *      SQLHSTMT     StatementHandle);
    * ```
    *
-   * @see {@link https://learn.microsoft.com/en-us/sql/odbc/reference/syntax/sqlexecdirect-function?view=sql-server-ver17}
+   * @see {@link https://learn.microsoft.com/en-us/sql/odbc/reference/syntax/sqlcancel-function?view=sql-server-ver17}
    */
-  SQLExecDirectW(
+  SQLCancel(
     statementHandle: Deno.PointerValue,
-    statementText: BufferSource,
-    textLength: number,
-  ): Promise<
+  ):
     | SQLRETURN.SQL_SUCCESS
     | SQLRETURN.SQL_SUCCESS_WITH_INFO
-    | SQLRETURN.SQL_NEED_DATA
-    | SQLRETURN.SQL_STILL_EXECUTING
     | SQLRETURN.SQL_ERROR
-    | SQLRETURN.SQL_NO_DATA
-    | SQLRETURN.SQL_INVALID_HANDLE
-    | SQLRETURN.SQL_PARAM_DATA_AVAILABLE
-  >;
+    | SQLRETURN.SQL_INVALID_HANDLE;
 
   /**
    * `SQLRowCount` returns the number of rows affected by an `UPDATE`, `INSERT`, or `DELETE` statement; an `SQL_ADD`, `SQL_UPDATE_BY_BOOKMARK`, or `SQL_DELETE_BY_BOOKMARK` operation in `SQLBulkOperations`; or an `SQL_UPDATE` or `SQL_DELETE` operation in `SQLSetPos`.
@@ -968,6 +1991,38 @@ interface OdbcSymbols {
     | SQLRETURN.SQL_ERROR
     | SQLRETURN.SQL_INVALID_HANDLE;
 
+  /**
+   * `SQLColAttributeW` returns descriptor information for a column in a result set.
+   *
+   * ```cpp
+   * SQLRETURN SQLColAttributeW(
+   *      SQLHSTMT        StatementHandle,
+   *      SQLUSMALLINT    ColumnNumber,
+   *      SQLUSMALLINT    FieldIdentifier,
+   *      SQLPOINTER      CharacterAttributePtr,
+   *      SQLSMALLINT     BufferLength,
+   *      SQLSMALLINT *   StringLengthPtr,
+   *      SQLLEN *        NumericAttributePtr);
+   * ```
+   *
+   * @see {@link https://learn.microsoft.com/en-us/sql/odbc/reference/syntax/sqlcolattribute-function?view=sql-server-ver17}
+   */
+  SQLColAttributeW(
+    statementHandle: Deno.PointerValue,
+    columnNumber: number,
+    fieldIdentifier: ColAttribute,
+    characterAttributePtr: BufferSource | null,
+    bufferLength: number,
+    stringLengthPtr: BufferSource | null,
+    numericAttributePtr: BufferSource | null,
+  ): Promise<
+    | SQLRETURN.SQL_SUCCESS
+    | SQLRETURN.SQL_SUCCESS_WITH_INFO
+    | SQLRETURN.SQL_STILL_EXECUTING
+    | SQLRETURN.SQL_ERROR
+    | SQLRETURN.SQL_INVALID_HANDLE
+  >;
+
   /**
    * `SQLDescribeColW` returns the result descriptor - column name,type, column size, decimal digits, and nullability - for one column in the result set. This information also is available in the fields of the IRD.
    *
@@ -1050,6 +2105,26 @@ interface OdbcSymbols {
     | SQLRETURN.SQL_INVALID_HANDLE
   >;
 
+  /**
+   * `SQLMoreResults` determines whether more results are available on a statement containing `SELECT`, `UPDATE`, `INSERT`, or `DELETE` statements and, if so, initializes processing for those results.
+   *
+   * ```cpp
+   * SQLRETURN SQLMoreResults(
+   *      SQLHSTMT     StatementHandle);
+   * ```
+   *
+   * @see {@link https://learn.microsoft.com/en-us/sql/odbc/reference/syntax/sqlmoreresults-function?view=sql-server-ver17}
+   */
+  SQLMoreResults(statementHandle: Deno.PointerValue): Promise<
+    | SQLRETURN.SQL_SUCCESS
+    | SQLRETURN.SQL_SUCCESS_WITH_INFO
+    | SQLRETURN.SQL_NO_DATA
+    | SQLRETURN.SQL_STILL_EXECUTING
+    | SQLRETURN.SQL_ERROR
+    | SQLRETURN.SQL_INVALID_HANDLE
+    | SQLRETURN.SQL_PARAM_DATA_AVAILABLE
+  >;
+
   /**
    * `SQLEndTran` requests a commit or rollback operation for all active operations on all statements associated with a connection. SQLEndTran can also request that a commit or rollback operation be performed for all connections associated with an environment.
    *
@@ -1129,6 +2204,82 @@ interface OdbcSymbols {
     | SQLRETURN.SQL_INVALID_HANDLE
   >;
 
+  /**
+   * `SQLGetStmtAttrW` returns the current setting of a statement attribute.
+   *
+   * ```cpp
+   * SQLRETURN SQLGetStmtAttrW(
+   *      SQLHSTMT        StatementHandle,
+   *      SQLINTEGER      Attribute,
+   *      SQLPOINTER      ValuePtr,
+   *      SQLINTEGER      BufferLength,
+   *      SQLINTEGER *    StringLengthPtr);
+   * ```
+   *
+   * @see {@link https://learn.microsoft.com/en-us/sql/odbc/reference/syntax/sqlgetstmtattr-function?view=sql-server-ver17}
+   */
+  SQLGetStmtAttrW(
+    statementHandle: Deno.PointerValue,
+    attribute: number,
+    valuePtr: BufferSource,
+    bufferLength: number,
+    stringLengthPtr: Deno.PointerValue,
+  ):
+    | SQLRETURN.SQL_SUCCESS
+    | SQLRETURN.SQL_SUCCESS_WITH_INFO
+    | SQLRETURN.SQL_ERROR
+    | SQLRETURN.SQL_INVALID_HANDLE;
+
+  /**
+   * `SQLSetDescFieldW` sets the value of a single field of a descriptor record.
+   *
+   * ```cpp
+   * SQLRETURN SQLSetDescFieldW(
+   *      SQLHDESC      DescriptorHandle,
+   *      SQLSMALLINT   RecNumber,
+   *      SQLSMALLINT   FieldIdentifier,
+   *      SQLPOINTER    ValuePtr,
+   *      SQLINTEGER    BufferLength);
+   * ```
+   *
+   * @see {@link https://learn.microsoft.com/en-us/sql/odbc/reference/syntax/sqlsetdescfield-function?view=sql-server-ver17}
+   */
+  SQLSetDescFieldW(
+    descriptorHandle: Deno.PointerValue,
+    recNumber: number,
+    fieldIdentifier: number,
+    valuePtr: Deno.PointerValue,
+    bufferLength: number,
+  ):
+    | SQLRETURN.SQL_SUCCESS
+    | SQLRETURN.SQL_SUCCESS_WITH_INFO
+    | SQLRETURN.SQL_ERROR
+    | SQLRETURN.SQL_INVALID_HANDLE;
+
+  /**
+   * `SQLSetStmtAttrW` sets attributes related to a statement.
+   *
+   * ```cpp
+   * SQLRETURN SQLSetStmtAttrW(
+   *      SQLHSTMT      StatementHandle,
+   *      SQLINTEGER    Attribute,
+   *      SQLPOINTER    ValuePtr,
+   *      SQLINTEGER    StringLength);
+   * ```
+   *
+   * @see {@link https://learn.microsoft.com/en-us/sql/odbc/reference/syntax/sqlsetstmtattr-function?view=sql-server-ver17}
+   */
+  SQLSetStmtAttrW(
+    statementHandle: Deno.PointerValue,
+    attribute: number,
+    valuePtr: Deno.PointerValue,
+    stringLength: number,
+  ):
+    | SQLRETURN.SQL_SUCCESS
+    | SQLRETURN.SQL_SUCCESS_WITH_INFO
+    | SQLRETURN.SQL_ERROR
+    | SQLRETURN.SQL_INVALID_HANDLE;
+
   /**
    * `SQLSetEnvAttr` sets attributes that govern aspects of environments.
    *
@@ -1153,6 +2304,128 @@ interface OdbcSymbols {
     | SQLRETURN.SQL_ERROR
     | SQLRETURN.SQL_INVALID_HANDLE;
 
+  /**
+   * `bcp_initW` initializes bulk copy from a program variable to a table.
+   *
+   * ```cpp
+   * RETCODE bcp_initW(
+   *      HDBC      hdbc,
+   *      LPCWSTR   szTable,
+   *      LPCWSTR   szDataFile,
+   *      LPCWSTR   szErrorFile,
+   *      INT       eDirection);
+   * ```
+   *
+   * @see {@link https://learn.microsoft.com/en-us/sql/relational-databases/native-client-odbc-extensions-bulk-copy-functions/bcp-init?view=sql-server-ver17}
+   */
+  bcp_initW(
+    hdbc: Deno.PointerValue,
+    szTable: BufferSource,
+    szDataFile: Deno.PointerValue,
+    szErrorFile: Deno.PointerValue,
+    eDirection: number,
+  ): Promise<number>;
+
+  /**
+   * `bcp_bind` binds data from a program variable to a table column for bulk copy into SQL Server.
+   *
+   * ```cpp
+   * RETCODE bcp_bind(
+   *      HDBC      hdbc,
+   *      LPCBYTE   pData,
+   *      INT       cbIndicator,
+   *      DBINT     cbData,
+   *      LPCBYTE   pTerm,
+   *      INT       cbTerm,
+   *      INT       eDataType,
+   *      INT       idxServerCol);
+   * ```
+   *
+   * @see {@link https://learn.microsoft.com/en-us/sql/relational-databases/native-client-odbc-extensions-bulk-copy-functions/bcp-bind?view=sql-server-ver17}
+   */
+  bcp_bind(
+    hdbc: Deno.PointerValue,
+    pData: BufferSource,
+    cbIndicator: number,
+    cbData: number,
+    pTerm: Deno.PointerValue,
+    cbTerm: number,
+    eDataType: BcpType,
+    idxServerCol: number,
+  ): number;
+
+  /**
+   * `bcp_colptr` sets the program variable data address for the current copy into SQL Server.
+   *
+   * ```cpp
+   * RETCODE bcp_colptr(
+   *      HDBC      hdbc,
+   *      LPCBYTE   pData,
+   *      INT       idxServerCol);
+   * ```
+   *
+   * @see {@link https://learn.microsoft.com/en-us/sql/relational-databases/native-client-odbc-extensions-bulk-copy-functions/bcp-colptr?view=sql-server-ver17}
+   */
+  bcp_colptr(
+    hdbc: Deno.PointerValue,
+    pData: BufferSource,
+    idxServerCol: number,
+  ): number;
+
+  /**
+   * `bcp_collen` sets the data length in the program variable for the current bulk copy into SQL Server.
+   *
+   * ```cpp
+   * RETCODE bcp_collen(
+   *      HDBC      hdbc,
+   *      DBINT     cbData,
+   *      INT       idxServerCol);
+   * ```
+   *
+   * @see {@link https://learn.microsoft.com/en-us/sql/relational-databases/native-client-odbc-extensions-bulk-copy-functions/bcp-collen?view=sql-server-ver17}
+   */
+  bcp_collen(
+    hdbc: Deno.PointerValue,
+    cbData: number,
+    idxServerCol: number,
+  ): number;
+
+  /**
+   * `bcp_sendrow` sends a row of data from program variables to SQL Server.
+   *
+   * ```cpp
+   * RETCODE bcp_sendrow(
+   *      HDBC      hdbc);
+   * ```
+   *
+   * @see {@link https://learn.microsoft.com/en-us/sql/relational-databases/native-client-odbc-extensions-bulk-copy-functions/bcp-sendrow?view=sql-server-ver17}
+   */
+  bcp_sendrow(hdbc: Deno.PointerValue): Promise<number>;
+
+  /**
+   * `bcp_batch` commits all rows previously bulk copied from program variables and sent to SQL Server by `bcp_sendrow`.
+   *
+   * ```cpp
+   * DBINT bcp_batch(
+   *      HDBC      hdbc);
+   * ```
+   *
+   * @see {@link https://learn.microsoft.com/en-us/sql/relational-databases/native-client-odbc-extensions-bulk-copy-functions/bcp-batch?view=sql-server-ver17}
+   */
+  bcp_batch(hdbc: Deno.PointerValue): Promise<number>;
+
+  /**
+   * `bcp_done` ends a bulk copy from program variables to SQL Server.
+   *
+   * ```cpp
+   * DBINT bcp_done(
+   *      HDBC      hdbc);
+   * ```
+   *
+   * @see {@link https://learn.microsoft.com/en-us/sql/relational-databases/native-client-odbc-extensions-bulk-copy-functions/bcp-done?view=sql-server-ver17}
+   */
+  bcp_done(hdbc: Deno.PointerValue): Promise<number>;
+
   /**
    * ```cpp
    * SQLRETURN SQLGetInfo(
@@ -1203,3 +2476,19 @@ export function strToBuf(str: string): Uint8Array<ArrayBuffer> {
 export function bufToStr(buffer: Uint16Array, len: number): string {
   return decoder.decode(buffer.subarray(0, len));
 }
+
+/**
+ * Formats diagnostic records into a human readable, multi-line string.
+ *
+ * @param records The diagnostic records returned by `getDiagRecords`.
+ * @returns One line per record, or a generic message if there are none.
+ */
+export function formatDiagRecords(records: DiagRecord[]): string {
+  if (records.length === 0) return "Unknown ODBC Error";
+
+  return records
+    .map(({ sqlState, nativeError, message }) =>
+      `[${sqlState}] ${message} (Code: ${nativeError})`
+    )
+    .join("\n");
+}
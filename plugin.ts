@@ -0,0 +1,86 @@
+import type {
+  CompiledQuery,
+  KyselyPlugin,
+  PluginTransformQueryArgs,
+  PluginTransformResultArgs,
+  QueryId,
+  QueryResult,
+  RootOperationNode,
+  UnknownRow,
+} from "@kysely/kysely";
+
+/**
+ * Options that apply to a single query, overriding the dialect config.
+ */
+export interface QueryOptions {
+  /**
+   * Number of seconds to wait for the statement to complete before it is
+   * cancelled with a `QueryTimeoutError`. `0` disables the timeout.
+   */
+  queryTimeout?: number;
+  /**
+   * Cancels the running statement through `SQLCancel` when aborted. The query
+   * then rejects with an `AbortError` and the connection stays usable.
+   */
+  signal?: AbortSignal;
+  /**
+   * Returns the last column of streamed rows as a `ReadableStream` of
+   * `Uint8Array` or string chunks when it is a LOB (`max`) column, pulling its
+   * value with `SQLGetData` as the stream is read instead of buffering it.
+   * Each stream is readable until the next row is requested. Only supported by
+   * `stream()` and `streamMulti`.
+   */
+  lobStreams?: boolean;
+  /**
+   * Attaches the columns of the result set to the query result as `columns`.
+   */
+  columnMetadata?: boolean;
+}
+
+const queryOptions = new WeakMap<QueryId, QueryOptions>();
+
+/**
+ * Kysely plugin that attaches {@link QueryOptions} to every query it is used
+ * with.
+ *
+ * ```ts
+ * await db
+ *   .withPlugin(new QueryOptionsPlugin({ queryTimeout: 5, signal }))
+ *   .selectFrom("report")
+ *   .selectAll()
+ *   .execute();
+ * ```
+ */
+export class QueryOptionsPlugin implements KyselyPlugin {
+  readonly #options: QueryOptions;
+
+  constructor(options: QueryOptions) {
+    this.#options = Object.freeze({ ...options });
+  }
+
+  transformQuery(
+    { node, queryId }: PluginTransformQueryArgs,
+  ): RootOperationNode {
+    queryOptions.set(queryId, {
+      ...queryOptions.get(queryId),
+      ...this.#options,
+    });
+    return node;
+  }
+
+  // deno-lint-ignore require-await
+  async transformResult(
+    { result }: PluginTransformResultArgs,
+  ): Promise<QueryResult<UnknownRow>> {
+    return result;
+  }
+}
+
+/**
+ * Returns the options attached to a compiled query by a {@link QueryOptionsPlugin}.
+ */
+export function getQueryOptions(
+  compiledQuery: CompiledQuery,
+): QueryOptions | undefined {
+  return queryOptions.get(compiledQuery.queryId);
+}
@@ -0,0 +1,100 @@
+/**
+ * Maps the SQL Server types supported for `OUTPUT` parameters to the
+ * JavaScript type of their value.
+ */
+export interface ProcedureParameterTypes {
+  bit: boolean;
+  tinyint: number;
+  smallint: number;
+  int: number;
+  bigint: bigint;
+  float: number;
+  decimal: string;
+  nvarchar: string;
+  varbinary: Uint8Array;
+  datetime2: Date;
+}
+
+export type ProcedureParameterType = keyof ProcedureParameterTypes;
+
+export interface ProcedureParameterOptions {
+  /**
+   * Maximum number of characters (`nvarchar`, 1 - 4000) or bytes (`varbinary`,
+   * 1 - 8000) the parameter can hold.
+   */
+  length?: number;
+  /**
+   * Total number of digits of a `decimal` parameter (1 - 38, default 18).
+   */
+  precision?: number;
+  /**
+   * Number of digits after the decimal point of a `decimal` parameter
+   * (default 0).
+   */
+  scale?: number;
+}
+
+/**
+ * A procedure parameter bound with `SQL_PARAM_OUTPUT` or
+ * `SQL_PARAM_INPUT_OUTPUT`. Create instances with {@link output} and
+ * {@link inputOutput}.
+ */
+export class ProcedureParameter<T extends ProcedureParameterType> {
+  readonly type: T;
+  readonly isInput: boolean;
+  readonly value: ProcedureParameterTypes[T] | null;
+  readonly options: Readonly<ProcedureParameterOptions>;
+
+  constructor(
+    type: T,
+    isInput: boolean,
+    value: ProcedureParameterTypes[T] | null,
+    options: ProcedureParameterOptions = {},
+  ) {
+    this.type = type;
+    this.isInput = isInput;
+    this.value = value;
+    this.options = Object.freeze({ ...options });
+  }
+}
+
+/**
+ * Declares an `OUTPUT` parameter of the given type.
+ *
+ * ```ts
+ * output("int");
+ * output("nvarchar", { length: 100 });
+ * output("decimal", { precision: 10, scale: 2 });
+ * ```
+ */
+export function output<T extends ProcedureParameterType>(
+  type: T,
+  options?: ProcedureParameterOptions,
+): ProcedureParameter<T> {
+  return new ProcedureParameter(type, false, null, options);
+}
+
+/**
+ * Declares an `INPUT_OUTPUT` parameter of the given type, sending `value` to
+ * the procedure and reading back the value it assigns.
+ */
+export function inputOutput<T extends ProcedureParameterType>(
+  type: T,
+  value: ProcedureParameterTypes[T] | null,
+  options?: ProcedureParameterOptions,
+): ProcedureParameter<T> {
+  return new ProcedureParameter(type, true, value, options);
+}
+
+/**
+ * The `OUTPUT` and `INPUT_OUTPUT` values of a procedure call, keyed like the
+ * parameters they were declared with.
+ */
+export type ProcedureOutputs<P extends Record<string, unknown>> = {
+  [
+    K in keyof P as P[K] extends ProcedureParameter<ProcedureParameterType> ? K
+      : never
+  ]: P[K] extends ProcedureParameter<infer T>
+    ? ProcedureParameterTypes[T] | null
+    : never;
+};
@@ -1,20 +1,64 @@
 import type { CompiledQuery, QueryResult } from "@kysely/kysely";
 import {
   bufToStr,
+  ColAttribute,
   CType,
+  type DiagRecord,
+  type ExecuteResult,
+  FreeStmtOption,
   HandleType,
   type OdbcLib,
+  SQL_ATTR_PARAM_STATUS_PTR,
+  SQL_ATTR_PARAMSET_SIZE,
+  SQL_ATTR_QUERY_TIMEOUT,
+  SQL_ATTR_ROW_ARRAY_SIZE,
+  SQL_ATTR_ROWS_FETCHED_PTR,
+  SQL_DATA_AT_EXEC,
+  SQL_IS_POINTER,
+  SQL_IS_UINTEGER,
   SQL_NO_TOTAL,
   SQL_NTS,
   SQL_NULL_DATA,
+  SQL_PARAM_INPUT,
+  SQL_PARAM_INPUT_OUTPUT,
+  SQL_PARAM_OUTPUT,
+  SQLParamStatus,
   SQLRETURN,
   SQLType,
   strToBuf,
 } from "./odbc.ts";
+import type { CachedStatement, StatementCache } from "./cache.ts";
+import {
+  ProcedureParameter,
+  type ProcedureParameterType,
+} from "./procedure.ts";
+import {
+  type DateTimeOffset,
+  datetimeoffset,
+  time,
+  TypedParameter,
+  type TypedParameterType,
+  type TypedParameterTypes,
+} from "./values.ts";
+import {
+  decodeHierarchyId,
+  decodeSpatial,
+  encodeHierarchyId,
+  encodeSpatial,
+  formatWkt,
+} from "./udt.ts";
 
 const MAX_BIND_SIZE = 4096n; // 4kb
-
-type ColBinding = {
+const DATE_STRUCT_SIZE = 6;
+const TIMESTAMP_STRUCT_SIZE = 16;
+const TIME2_STRUCT_SIZE = 12;
+const TIMESTAMPOFFSET_STRUCT_SIZE = 20;
+const GUID_SIZE = 16;
+const PUT_DATA_CHUNK_SIZE = 65536; // 64kb
+const LOB_STREAMS_UNSUPPORTED =
+  "lobStreams is only supported when streaming a query";
+
+export type ColBinding = {
   colNumber: number;
   isBound: boolean;
   cType: CType;
@@ -23,6 +67,7 @@ type ColBinding = {
     | Int16Array<ArrayBuffer>
     | Int32Array<ArrayBuffer>
     | BigInt64Array<ArrayBuffer>
+    | Float32Array<ArrayBuffer>
     | Float64Array<ArrayBuffer>
     | Uint16Array<ArrayBuffer>;
   bufLen: bigint;
@@ -30,12 +75,17 @@ type ColBinding = {
 };
 
 type ParamBinding = {
+  ioType?: number;
+  dataAtExec?: StreamParameter;
   cType: CType;
   sqlType: SQLType;
   buf:
     | Int32Array<ArrayBuffer>
     | BigInt64Array<ArrayBuffer>
     | Uint8Array<ArrayBuffer>
+    | Int16Array<ArrayBuffer>
+    | Uint16Array<ArrayBuffer>
+    | Float32Array<ArrayBuffer>
     | Float64Array<ArrayBuffer>;
   colSize: bigint;
   decimalDigits: number;
@@ -43,105 +93,769 @@ type ParamBinding = {
   lenIndBuf: BigInt64Array<ArrayBuffer>;
 };
 
+/**
+ * How result columns that share a name are returned:
+ * - `error` rejects the query.
+ * - `suffix` appends `_2`, `_3`, ... to repeated names.
+ * - `array` returns rows as arrays in column order.
+ */
+export type DuplicateColumnPolicy = "error" | "suffix" | "array";
+
+/**
+ * How `date`, `datetime`, `datetime2` and `smalldatetime` values are returned:
+ * - `utc` as a `Date`, reading the stored value as UTC.
+ * - `local` as a `Date`, reading the stored value as local time.
+ * - `string` as `YYYY-MM-DD`, or `YYYY-MM-DDTHH:MM:SS.fffffff` with the full
+ *   100ns precision.
+ * - `temporal` as a `Temporal.PlainDate` or `Temporal.PlainDateTime`.
+ *
+ * `Date` parameters are bound as their local time with `local`, as UTC
+ * otherwise.
+ */
+export type DateRepresentation = "utc" | "local" | "string" | "temporal";
+
+/**
+ * How `time` values are returned:
+ * - `string` as `HH:MM:SS.fffffff`.
+ * - `milliseconds` as the number of milliseconds since midnight.
+ * - `temporal` as a `Temporal.PlainTime`.
+ */
+export type TimeRepresentation = "string" | "milliseconds" | "temporal";
+
+/**
+ * How `datetimeoffset` values are returned:
+ * - `string` as an ISO 8601 string with 7 fractional digits and the offset.
+ * - `date` as a {@link DateTimeOffset}, a `Date` plus the offset in minutes.
+ * - `temporal` as a `Temporal.ZonedDateTime` in the stored offset.
+ */
+export type DateTimeOffsetRepresentation = "string" | "date" | "temporal";
+
+/**
+ * How `decimal`, `numeric`, `money` and `smallmoney` values are returned:
+ * - `string` as the exact decimal string.
+ * - `number` as a number, rounded to double precision.
+ * - `bigint` as the unscaled integer, e.g. `12.34` from a `decimal(10, 2)`
+ *   column as `1234n`.
+ * - a function, called with the decimal string, e.g. to construct the decimal
+ *   type of a library.
+ */
+export type DecimalRepresentation =
+  | "string"
+  | "number"
+  | "bigint"
+  | ((value: string) => unknown);
+
+/**
+ * How `geography` and `geometry` values are returned:
+ * - `binary` as the serialized `Uint8Array`.
+ * - `geojson` as a GeoJSON geometry object.
+ * - `wkt` as WKT, as returned by `STAsText()`.
+ */
+export type SpatialRepresentation = "binary" | "geojson" | "wkt";
+
+/**
+ * How `hierarchyid` values are returned:
+ * - `binary` as the serialized `Uint8Array`.
+ * - `string` as the path, e.g. `/1/2.1/`.
+ */
+export type HierarchyIdRepresentation = "binary" | "string";
+
+/**
+ * Parses an `xml` value, e.g. into a DOM.
+ */
+export type XmlParser = (value: string) => unknown;
+
+/**
+ * A parameter value that is sent to the driver in chunks with `SQLPutData`
+ * while the statement executes, instead of being held in memory.
+ */
+export type StreamParameter = ReadableStream<Uint8Array> | Blob | Deno.FsFile;
+
+/**
+ * Describes a column of a result set.
+ */
+export interface ColumnMetadata {
+  name: string;
+  /**
+   * ODBC SQL data type as reported by `SQLDescribeColW` (e.g. `-9` for `SQL_WVARCHAR`).
+   */
+  sqlType: number;
+  size: number;
+  scale: number;
+  isNullable: boolean;
+  /**
+   * Name of the data type in SQL Server (e.g. `nvarchar`). This and the base
+   * names are only set when column metadata is requested.
+   */
+  typeName?: string;
+  /**
+   * Table and column the result column was selected from, when the driver
+   * provides them.
+   */
+  baseTableName?: string;
+  baseColumnName?: string;
+}
+
+/**
+ * A `QueryResult` that carries the columns of its result set when column
+ * metadata is requested.
+ */
+export interface OdbcQueryResult<R> extends QueryResult<R> {
+  columns?: ColumnMetadata[];
+  /**
+   * Informational messages (e.g. `PRINT` output) the server sent while the
+   * query ran. Stream chunks carry the messages received since the previous
+   * chunk.
+   */
+  messages?: DiagRecord[];
+}
+
+/**
+ * A single result set returned by a batch or stored procedure.
+ */
+export interface ResultSet<R> {
+  columns: ColumnMetadata[];
+  rows: R[];
+  numAffectedRows?: bigint;
+}
+
+/**
+ * A chunk of rows belonging to the result set at `resultSetIndex`.
+ */
+export interface ResultSetChunk<R> extends ResultSet<R> {
+  resultSetIndex: number;
+}
+
+export type BulkRowStatus =
+  | "success"
+  | "successWithInfo"
+  | "error"
+  | "unused"
+  | "diagUnavailable";
+
+/**
+ * The outcome of executing a statement with an array of parameter sets.
+ */
+export interface BulkResult {
+  numAffectedRows: bigint;
+  /**
+   * Status of each parameter set, as reported through `SQL_ATTR_PARAM_STATUS_PTR`.
+   */
+  rowStatus: BulkRowStatus[];
+  /**
+   * Errors raised by individual parameter sets.
+   */
+  errors: Error[];
+}
+
+export interface RequestOptions {
+  statementCache?: StatementCache;
+  /**
+   * Query timeout in seconds, `0` disables it.
+   */
+  queryTimeout?: number;
+  signal?: AbortSignal;
+  /**
+   * Number of rows fetched per `SQLFetch` call, `1` disables block fetching.
+   */
+  rowsetSize?: number;
+  /**
+   * Describes the columns of the result with `SQLColAttributeW` and returns
+   * them with the rows.
+   */
+  columnMetadata?: boolean;
+  /**
+   * How result columns that share a name are returned, defaults to `suffix`.
+   */
+  duplicateColumns?: DuplicateColumnPolicy;
+  /**
+   * Returns a trailing LOB column as a `ReadableStream`, only supported by
+   * `stream` and `streamMulti`.
+   */
+  lobStreams?: boolean;
+  /**
+   * How date and datetime values are returned and `Date` parameters are
+   * bound, defaults to `utc`.
+   */
+  dates?: DateRepresentation;
+  /**
+   * How `time` values are returned, defaults to `string`.
+   */
+  time?: TimeRepresentation;
+  /**
+   * How `datetimeoffset` values are returned, defaults to `string`.
+   */
+  datetimeOffset?: DateTimeOffsetRepresentation;
+  /**
+   * How `decimal` and `numeric` values are returned, defaults to `string`.
+   */
+  decimal?: DecimalRepresentation;
+  /**
+   * Parses `xml` values, which are returned as strings by default.
+   */
+  xml?: XmlParser;
+  /**
+   * How `geography` and `geometry` values are returned, defaults to `binary`.
+   */
+  spatial?: SpatialRepresentation;
+  /**
+   * How `hierarchyid` values are returned, defaults to `binary`.
+   */
+  hierarchyId?: HierarchyIdRepresentation;
+  /**
+   * Called with each informational message the server sends while the
+   * statement runs.
+   */
+  onMessage?: (message: DiagRecord) => void;
+}
+
 export class OdbcRequest<R> {
   readonly #odbcLib: OdbcLib;
   readonly #compiledQuery: CompiledQuery;
   readonly #dbcHandle: Deno.PointerValue;
+  readonly #statementCache: StatementCache | undefined;
+  readonly #queryTimeout: number | undefined;
+  readonly #signal: AbortSignal | undefined;
+  readonly #rowsetSize: number;
+  readonly #lobStreams: boolean;
+  readonly #duplicateColumns: DuplicateColumnPolicy;
+  readonly #columnMetadata: boolean;
+  readonly #dates: DateRepresentation;
+  readonly #time: TimeRepresentation;
+  readonly #datetimeOffset: DateTimeOffsetRepresentation;
+  readonly #decimal: DecimalRepresentation;
+  readonly #xml: XmlParser | undefined;
+  readonly #spatial: SpatialRepresentation;
+  readonly #hierarchyId: HierarchyIdRepresentation;
+  readonly #udtTypeNames: Map<number, string> = new Map();
+  readonly #onMessage: ((message: DiagRecord) => void) | undefined;
   readonly #rows: R[] = [];
   readonly #paramBindings: Map<number, ParamBinding> = new Map();
-  readonly #colBindings: Map<string, ColBinding> = new Map();
+  readonly #streamParams: Map<bigint, StreamParameter> = new Map();
 
+  #colBindings: Map<string, ColBinding> = new Map();
+  #columns: ColumnMetadata[] = [];
   #stmtHandle: Deno.PointerValue = null;
+  #cachedStatement: CachedStatement | null = null;
+  #paramStatusBuf: Uint16Array<ArrayBuffer> | null = null;
+  #rowsFetchedBuf: BigInt64Array<ArrayBuffer> | null = null;
+  #rowNumber = 0;
+  #pendingLobRead: Promise<unknown> | null = null;
+  #messages: DiagRecord[] = [];
+  #hasFailed = false;
 
   constructor(
     odbcLib: OdbcLib,
     compiledQuery: CompiledQuery,
     dbcHandle: Deno.PointerValue,
+    options: RequestOptions = {},
   ) {
     this.#odbcLib = odbcLib;
     this.#compiledQuery = compiledQuery;
     this.#dbcHandle = dbcHandle;
+    this.#statementCache = options.statementCache;
+    this.#queryTimeout = options.queryTimeout;
+    this.#signal = options.signal;
+    this.#rowsetSize = options.rowsetSize ?? 1;
+    this.#lobStreams = options.lobStreams ?? false;
+    this.#duplicateColumns = options.duplicateColumns ?? "suffix";
+    this.#columnMetadata = options.columnMetadata ?? false;
+    this.#dates = options.dates ?? "utc";
+    this.#time = options.time ?? "string";
+    this.#datetimeOffset = options.datetimeOffset ?? "string";
+    this.#decimal = options.decimal ?? "string";
+    this.#xml = options.xml;
+    this.#spatial = options.spatial ?? "binary";
+    this.#hierarchyId = options.hierarchyId ?? "binary";
+    this.#onMessage = options.onMessage;
   }
 
   async execute(): Promise<{
     numAffectedRows: bigint;
     rows: R[];
+    columns?: ColumnMetadata[];
+    messages?: DiagRecord[];
   }> {
-    this.#stmtHandle = this.#odbcLib.allocHandle(
-      HandleType.SQL_HANDLE_STMT,
-      this.#dbcHandle,
-    );
-
     try {
-      this.#bindParams();
+      if (this.#lobStreams) throw new Error(LOB_STREAMS_UNSUPPORTED);
 
-      const { colCount, numAffectedRows } = await this.#odbcLib.execDirect(
-        this.#compiledQuery.sql,
-        this.#stmtHandle,
-      );
+      const { colCount, numAffectedRows } = await this.#execute();
 
       if (colCount > 0) {
         this.#bindCols(colCount);
+        await this.#describeColumns();
 
         for await (const row of this.#fetchRow()) {
           this.#rows.push(row);
         }
       }
 
+      // Messages of later statements in the batch (e.g. a PRINT after the
+      // SELECT) are only reported when moving on to their results.
+      while (await this.#odbcLib.moreResults(this.#stmtHandle));
+
       return {
         rows: this.#rows,
         numAffectedRows,
+        columns: this.#getColumnMetadata(),
+        messages: this.#takeMessages(),
       };
+    } catch (error) {
+      this.#hasFailed = true;
+      throw this.#signal?.aborted ? createAbortError() : error;
     } finally {
       this.#cleanup();
     }
   }
 
-  async *stream(chunkSize: number): AsyncIterableIterator<QueryResult<R>> {
-    this.#stmtHandle = this.#odbcLib.allocHandle(
-      HandleType.SQL_HANDLE_STMT,
-      this.#dbcHandle,
-    );
+  async *stream(
+    chunkSize: number,
+  ): AsyncIterableIterator<OdbcQueryResult<R>> {
+    // A LOB stream is only readable until the next row is fetched, so rows
+    // are handed out one at a time.
+    if (this.#lobStreams) chunkSize = 1;
 
     try {
-      this.#bindParams();
-
-      const { colCount } = await this.#odbcLib.execDirect(
-        this.#compiledQuery.sql,
-        this.#stmtHandle,
-      );
+      const { colCount } = await this.#execute();
 
       if (colCount === 0) {
-        yield { rows: [] };
+        yield this.#streamChunk([], this.#getColumnMetadata());
         return;
       }
 
-      this.#bindCols(colCount);
+      // Fetching at most one chunk per rowset avoids buffering rows that
+      // would only be yielded with the next chunk.
+      this.#bindCols(colCount, Math.min(this.#rowsetSize, chunkSize));
+      await this.#describeColumns();
 
+      // Only the first chunk carries the columns.
+      let columns = this.#getColumnMetadata();
       let buffer: R[] = [];
 
       for await (const row of this.#fetchRow()) {
         buffer.push(row);
 
         if (buffer.length >= chunkSize) {
-          yield { rows: buffer };
+          yield this.#streamChunk(buffer, columns);
           buffer = [];
+          columns = undefined;
+        }
+      }
+
+      // A result without rows still reports its columns, and messages sent
+      // after the last row are not lost.
+      if (buffer.length > 0 || columns || this.#messages.length > 0) {
+        yield this.#streamChunk(buffer, columns);
+      }
+    } catch (error) {
+      this.#hasFailed = true;
+      throw this.#signal?.aborted ? createAbortError() : error;
+    } finally {
+      await this.#pendingLobRead?.catch(() => {});
+      this.#cleanup();
+    }
+  }
+
+  #streamChunk(
+    rows: R[],
+    columns: ColumnMetadata[] | undefined,
+  ): OdbcQueryResult<R> {
+    const messages = this.#takeMessages();
+    return {
+      rows,
+      ...(columns && { columns }),
+      ...(messages && { messages }),
+    };
+  }
+
+  async executeMulti(): Promise<ResultSet<R>[]> {
+    try {
+      return await this.#collectResultSets();
+    } catch (error) {
+      this.#hasFailed = true;
+      throw this.#signal?.aborted ? createAbortError() : error;
+    } finally {
+      this.#cleanup();
+    }
+  }
+
+  /**
+   * Executes a procedure call and reads its `OUTPUT` parameters. SQL Server
+   * only sends them after the last result set, so all result sets are read
+   * first. `paramNames` holds the name of each parameter in errors, by
+   * position.
+   */
+  async executeProcedure(paramNames: readonly string[]): Promise<{
+    resultSets: ResultSet<R>[];
+    outputs: Map<number, unknown>;
+  }> {
+    try {
+      const resultSets = await this.#collectResultSets();
+
+      const outputs = new Map<number, unknown>();
+      for (const [i, binding] of this.#paramBindings) {
+        if (binding.ioType && binding.ioType !== SQL_PARAM_INPUT) {
+          const name = paramNames[i - 1] ?? String(i);
+          outputs.set(i, readOutputParam(binding, this.#dates, name));
+        }
+      }
+
+      return { resultSets, outputs };
+    } catch (error) {
+      this.#hasFailed = true;
+      throw this.#signal?.aborted ? createAbortError() : error;
+    } finally {
+      this.#cleanup();
+    }
+  }
+
+  /**
+   * Executes the statement once for every parameter set. The parameters are
+   * bound column-wise as arrays (`SQL_ATTR_PARAMSET_SIZE`), so all sets are
+   * sent to the server in a single call.
+   */
+  async executeBulk(
+    parameterSets: readonly (readonly unknown[])[],
+  ): Promise<BulkResult> {
+    const { sql } = this.#compiledQuery;
+    const errors: Error[] = [];
+    let numAffectedRows = 0n;
+
+    if (parameterSets.length === 0) {
+      return { numAffectedRows, rowStatus: [], errors };
+    }
+
+    // SQL Server returns one result per parameter set and a failing set only
+    // fails its own result, so the remaining results are still read.
+    const step = async (fn: () => Promise<unknown>): Promise<boolean> => {
+      try {
+        await fn();
+        return true;
+      } catch (error) {
+        if (this.#signal?.aborted) throw error;
+        errors.push(error as Error);
+        return false;
+      }
+    };
+
+    try {
+      if (this.#signal?.aborted) throw createAbortError();
+
+      this.#stmtHandle = this.#odbcLib.allocHandle(
+        HandleType.SQL_HANDLE_STMT,
+        this.#dbcHandle,
+      );
+      this.#signal?.addEventListener("abort", this.#cancel);
+      this.#odbcLib.setInfoHandler(this.#stmtHandle, this.#onInfo);
+      this.#setQueryTimeout();
+      const statusBuf = this.#bindParamArrays(parameterSets);
+
+      let hasResult = await step(() =>
+        this.#odbcLib.execDirect(sql, this.#stmtHandle)
+      );
+      if (
+        !hasResult &&
+        statusBuf.every((s) => s === SQLParamStatus.SQL_PARAM_UNUSED)
+      ) {
+        throw errors[0];
+      }
+
+      for (let i = 0; i < parameterSets.length; i++) {
+        if (hasResult) {
+          const rowCount = this.#odbcLib.rowCount(this.#stmtHandle);
+          if (rowCount > 0n) numAffectedRows += rowCount;
         }
+
+        let hasMoreResults = false;
+        hasResult = await step(async () => {
+          hasMoreResults = await this.#odbcLib.moreResults(this.#stmtHandle);
+        });
+        if (hasResult && !hasMoreResults) break;
       }
 
-      if (buffer.length > 0) {
-        yield { rows: buffer };
+      const rowStatus = Array.from(statusBuf, (status): BulkRowStatus => {
+        switch (status) {
+          case SQLParamStatus.SQL_PARAM_SUCCESS:
+            return "success";
+          case SQLParamStatus.SQL_PARAM_SUCCESS_WITH_INFO:
+            return "successWithInfo";
+          case SQLParamStatus.SQL_PARAM_ERROR:
+            return "error";
+          case SQLParamStatus.SQL_PARAM_DIAG_UNAVAILABLE:
+            return "diagUnavailable";
+          default:
+            return "unused";
+        }
+      });
+
+      if (
+        errors.length > 0 &&
+        rowStatus.every((status) => status === "error" || status === "unused")
+      ) {
+        throw errors[0];
       }
+
+      return { numAffectedRows, rowStatus, errors };
+    } catch (error) {
+      this.#hasFailed = true;
+      throw this.#signal?.aborted ? createAbortError() : error;
+    } finally {
+      this.#cleanup();
+    }
+  }
+
+  async *streamMulti(
+    chunkSize: number,
+  ): AsyncIterableIterator<ResultSetChunk<R>> {
+    try {
+      yield* this.#readResultSets(this.#lobStreams ? 1 : chunkSize);
+    } catch (error) {
+      this.#hasFailed = true;
+      throw this.#signal?.aborted ? createAbortError() : error;
     } finally {
+      await this.#pendingLobRead?.catch(() => {});
       this.#cleanup();
     }
   }
 
+  async #collectResultSets(): Promise<ResultSet<R>[]> {
+    if (this.#lobStreams) throw new Error(LOB_STREAMS_UNSUPPORTED);
+
+    const resultSets: ResultSet<R>[] = [];
+
+    for await (const chunk of this.#readResultSets(Infinity)) {
+      const { resultSetIndex: _, ...resultSet } = chunk;
+      resultSets.push(resultSet);
+    }
+
+    return resultSets;
+  }
+
+  /**
+   * Reads every result set of the statement in order, moving on with
+   * `SQLMoreResults`. Each result set yields at least one chunk, so result sets
+   * without rows still report their columns and affected-row count.
+   */
+  async *#readResultSets(
+    chunkSize: number,
+  ): AsyncGenerator<ResultSetChunk<R>> {
+    let { colCount, numAffectedRows } = await this.#execute();
+    let resultSetIndex = 0;
+
+    while (true) {
+      const chunk = (rows: R[]): ResultSetChunk<R> => ({
+        resultSetIndex,
+        columns: this.#columns,
+        rows,
+        numAffectedRows: numAffectedRows !== -1n ? numAffectedRows : undefined,
+      });
+
+      if (colCount === 0) {
+        yield chunk([]);
+      } else {
+        this.#bindCols(colCount, Math.min(this.#rowsetSize, chunkSize));
+        await this.#describeColumns();
+
+        let buffer: R[] = [];
+        let hasYielded = false;
+
+        for await (const row of this.#fetchRow()) {
+          buffer.push(row);
+
+          if (buffer.length >= chunkSize) {
+            yield chunk(buffer);
+            buffer = [];
+            hasYielded = true;
+          }
+        }
+
+        if (buffer.length > 0 || !hasYielded) {
+          yield chunk(buffer);
+        }
+      }
+
+      if (!(await this.#odbcLib.moreResults(this.#stmtHandle))) return;
+
+      this.#odbcLib.freeStmt(this.#stmtHandle, FreeStmtOption.SQL_UNBIND);
+      this.#colBindings.clear();
+      this.#columns = [];
+
+      colCount = this.#odbcLib.numResultCols(this.#stmtHandle);
+      numAffectedRows = this.#odbcLib.rowCount(this.#stmtHandle);
+      resultSetIndex++;
+    }
+  }
+
+  /**
+   * Binds the parameters and executes the query, either directly or through a
+   * prepared statement when a statement cache is available.
+   */
+  async #execute(): Promise<{ colCount: number; numAffectedRows: bigint }> {
+    const { sql } = this.#compiledQuery;
+
+    if (this.#signal?.aborted) throw createAbortError();
+
+    const cachedStatement = this.#statementCache?.acquire(sql);
+    if (cachedStatement) {
+      this.#cachedStatement = cachedStatement;
+      this.#stmtHandle = cachedStatement.stmtHandle;
+      this.#signal?.addEventListener("abort", this.#cancel);
+      this.#odbcLib.setInfoHandler(this.#stmtHandle, this.#onInfo);
+      this.#setQueryTimeout();
+      this.#bindParams();
+      return await this.#putStreamParams(
+        await this.#odbcLib.execute(this.#stmtHandle, sql),
+      );
+    }
+
+    this.#stmtHandle = this.#odbcLib.allocHandle(
+      HandleType.SQL_HANDLE_STMT,
+      this.#dbcHandle,
+    );
+    this.#signal?.addEventListener("abort", this.#cancel);
+    this.#odbcLib.setInfoHandler(this.#stmtHandle, this.#onInfo);
+    this.#setQueryTimeout();
+    this.#bindParams();
+
+    // A statement for the same SQL that is currently in use (e.g. by an
+    // unfinished stream) is left alone and the query is executed directly.
+    if (!this.#statementCache || this.#statementCache.has(sql)) {
+      return await this.#putStreamParams(
+        await this.#odbcLib.execDirect(sql, this.#stmtHandle),
+      );
+    }
+
+    try {
+      await this.#odbcLib.prepare(sql, this.#stmtHandle);
+    } catch (error) {
+      this.#odbcLib.freeHandle(HandleType.SQL_HANDLE_STMT, this.#stmtHandle);
+      this.#stmtHandle = null;
+      throw error;
+    }
+    this.#cachedStatement = this.#statementCache.add(sql, this.#stmtHandle);
+
+    return await this.#putStreamParams(
+      await this.#odbcLib.execute(this.#stmtHandle, sql),
+    );
+  }
+
+  /**
+   * Sends the data-at-execution parameters the driver asks for with
+   * `SQLParamData`, chunk by chunk with `SQLPutData`. The statement runs once
+   * the last parameter is complete.
+   */
+  async #putStreamParams(
+    result: ExecuteResult,
+  ): Promise<{ colCount: number; numAffectedRows: bigint }> {
+    if (!result.needsData) return result;
+
+    let token: bigint | null;
+    while ((token = await this.#odbcLib.paramData(this.#stmtHandle)) !== null) {
+      const param = this.#streamParams.get(token);
+      if (!param) {
+        throw new Error("Driver requested data for an unknown parameter");
+      }
+
+      let isEmpty = true;
+      for await (const chunk of readStreamParameter(param)) {
+        if (this.#signal?.aborted) throw createAbortError();
+        if (chunk.byteLength === 0) continue;
+
+        await this.#odbcLib.putData(
+          this.#stmtHandle,
+          chunk,
+          BigInt(chunk.byteLength),
+        );
+        isEmpty = false;
+      }
+
+      // Without any SQLPutData call the value would not be sent at all.
+      if (isEmpty) {
+        await this.#odbcLib.putData(this.#stmtHandle, new Uint8Array(1), 0n);
+      }
+    }
+
+    return {
+      colCount: this.#odbcLib.numResultCols(this.#stmtHandle),
+      numAffectedRows: this.#odbcLib.rowCount(this.#stmtHandle),
+    };
+  }
+
+  /**
+   * Cancels the statement from the main thread while a nonblocking ODBC call
+   * is running on it. The pending call then fails with SQLSTATE `HY008` and
+   * the request rejects with an `AbortError`.
+   */
+  readonly #cancel = (): void => {
+    if (this.#stmtHandle === null) return;
+
+    try {
+      this.#odbcLib.cancel(this.#stmtHandle);
+    } catch {
+      // The statement may already be done; the request settles on its own.
+    }
+  };
+
+  /**
+   * Collects the informational messages of the statement for the result and
+   * passes them on to the `onMessage` callback.
+   */
+  readonly #onInfo = (records: DiagRecord[]): void => {
+    for (const record of records) {
+      this.#messages.push(record);
+      this.#onMessage?.(record);
+    }
+  };
+
+  /**
+   * Returns the messages collected since the last call, or `undefined` if
+   * there are none.
+   */
+  #takeMessages(): DiagRecord[] | undefined {
+    if (this.#messages.length === 0) return undefined;
+
+    const messages = this.#messages;
+    this.#messages = [];
+    return messages;
+  }
+
   #cleanup(): void {
-    this.#odbcLib.freeHandle(HandleType.SQL_HANDLE_STMT, this.#stmtHandle);
+    this.#signal?.removeEventListener("abort", this.#cancel);
+    this.#odbcLib.setInfoHandler(this.#stmtHandle, undefined);
+
+    const cachedStatement = this.#cachedStatement;
+    if (cachedStatement) {
+      this.#cachedStatement = null;
+      this.#colBindings = new Map();
+    } else if (this.#stmtHandle !== null) {
+      this.#odbcLib.freeHandle(HandleType.SQL_HANDLE_STMT, this.#stmtHandle);
+      this.#colBindings.clear();
+    }
     this.#stmtHandle = null;
+    this.#columns = [];
     this.#paramBindings.clear();
-    this.#colBindings.clear();
+    this.#streamParams.clear();
+    this.#paramStatusBuf = null;
+    this.#rowsFetchedBuf = null;
+    this.#rowNumber++;
+
+    // Released last, as resetting the statement may throw.
+    if (cachedStatement) {
+      this.#statementCache!.release(cachedStatement, this.#hasFailed);
+    }
+  }
+
+  #setQueryTimeout(): void {
+    // Cached statements keep their attributes, so a timeout set by a previous
+    // execution has to be reset explicitly.
+    if (this.#queryTimeout === undefined && !this.#cachedStatement) return;
+
+    this.#odbcLib.setStmtAttr(
+      this.#stmtHandle,
+      SQL_ATTR_QUERY_TIMEOUT,
+      Deno.UnsafePointer.create(BigInt(this.#queryTimeout ?? 0)),
+      SQL_IS_UINTEGER,
+    );
   }
 
   #bindParams(): void {
@@ -152,6 +866,7 @@ export class OdbcRequest<R> {
       this.#odbcLib.bindParameter(
         this.#stmtHandle,
         i,
+        odbcParam.ioType ?? SQL_PARAM_INPUT,
         odbcParam.cType,
         odbcParam.sqlType,
         odbcParam.colSize,
@@ -160,33 +875,273 @@ export class OdbcRequest<R> {
         odbcParam.bufLen,
         odbcParam.lenIndBuf,
       );
+      this.#setNumericParamDesc(i, odbcParam);
+
+      if (odbcParam.dataAtExec) {
+        // SQLParamData returns the buffer address as the parameter's token.
+        const token = Deno.UnsafePointer.value(
+          Deno.UnsafePointer.of(odbcParam.buf),
+        );
+        this.#streamParams.set(BigInt(token), odbcParam.dataAtExec);
+      }
 
       this.#paramBindings.set(i, odbcParam);
       i++;
     }
   }
 
-  #bindCols(colCount: number): void {
+  /**
+   * Binds every parameter as a column-wise array holding its value for each
+   * parameter set, and returns the buffer receiving the status of each set.
+   */
+  #bindParamArrays(
+    parameterSets: readonly (readonly unknown[])[],
+  ): Uint16Array<ArrayBuffer> {
+    const setCount = parameterSets.length;
+    const paramCount = parameterSets[0].length;
+
+    if (parameterSets.some((set) => set.length !== paramCount)) {
+      throw new Error("All parameter sets must have the same length");
+    }
+
+    for (let i = 1; i <= paramCount; i++) {
+      const odbcParam = this.#getParamArrayBinding(
+        parameterSets.map((set) => set[i - 1]),
+        i,
+      );
+
+      this.#odbcLib.bindParameter(
+        this.#stmtHandle,
+        i,
+        SQL_PARAM_INPUT,
+        odbcParam.cType,
+        odbcParam.sqlType,
+        odbcParam.colSize,
+        odbcParam.decimalDigits,
+        odbcParam.buf,
+        odbcParam.bufLen,
+        odbcParam.lenIndBuf,
+      );
+      this.#setNumericParamDesc(i, odbcParam);
+
+      this.#paramBindings.set(i, odbcParam);
+    }
+
+    const statusBuf = new Uint16Array(setCount).fill(
+      SQLParamStatus.SQL_PARAM_UNUSED,
+    );
+
+    this.#odbcLib.setStmtAttr(
+      this.#stmtHandle,
+      SQL_ATTR_PARAMSET_SIZE,
+      Deno.UnsafePointer.create(BigInt(setCount)),
+      SQL_IS_UINTEGER,
+    );
+    this.#odbcLib.setStmtAttr(
+      this.#stmtHandle,
+      SQL_ATTR_PARAM_STATUS_PTR,
+      Deno.UnsafePointer.of(statusBuf),
+      SQL_IS_POINTER,
+    );
+
+    // keep the status buffer alive while the driver writes to it
+    this.#paramStatusBuf = statusBuf;
+    return statusBuf;
+  }
+
+  /**
+   * `SQLBindParameter` does not pass the scale of a `SQL_C_NUMERIC` value to
+   * the driver, so it is set on the parameter descriptor.
+   */
+  #setNumericParamDesc(paramNumber: number, odbcParam: ParamBinding): void {
+    if (odbcParam.cType !== CType.SQL_C_NUMERIC) return;
+
+    this.#odbcLib.setNumericParamDesc(
+      this.#stmtHandle,
+      paramNumber,
+      Number(odbcParam.colSize),
+      odbcParam.decimalDigits,
+      odbcParam.buf as Uint8Array<ArrayBuffer>,
+    );
+  }
+
+  /**
+   * Maps the values of one parameter across all parameter sets with the same
+   * rules as single values and packs them into one array binding. Integers
+   * and floats may be mixed; other type combinations are rejected.
+   */
+  #getParamArrayBinding(
+    values: unknown[],
+    paramNumber: number,
+  ): ParamBinding {
+    const isNull = (val: unknown) => val === null || val === undefined;
+
+    let bindings = values.map((val) => {
+      if (val instanceof ProcedureParameter) {
+        throw new Error("Procedure parameters cannot be bound as arrays");
+      }
+      if (isStreamParameter(val)) {
+        throw new Error("Streamed parameters cannot be bound as arrays");
+      }
+      return this.#getParamBinding(val);
+    });
+
+    const cTypes = new Set(
+      bindings.filter((_, i) => !isNull(values[i])).map((b) => b.cType),
+    );
+
+    if (cTypes.size > 1) {
+      const onlyIntegers = [...cTypes].every((cType) =>
+        cType === CType.SQL_C_SLONG || cType === CType.SQL_C_SBIGINT
+      );
+      const onlyNumbers = [...cTypes].every((cType) =>
+        cType === CType.SQL_C_SLONG || cType === CType.SQL_C_SBIGINT ||
+        cType === CType.SQL_C_DOUBLE
+      );
+
+      if (onlyIntegers) {
+        bindings = values.map((val) =>
+          isNull(val) ? this.#getParamBinding(null) : {
+            cType: CType.SQL_C_SBIGINT,
+            sqlType: SQLType.SQL_BIGINT,
+            buf: new BigInt64Array([BigInt(val as number | bigint)]),
+            colSize: 0n,
+            decimalDigits: 0,
+            bufLen: 8n,
+            lenIndBuf: new BigInt64Array([8n]),
+          }
+        );
+      } else if (onlyNumbers) {
+        // Integers are widened to float along with the fractional numbers, as
+        // long as that keeps their exact value.
+        bindings = values.map((val) => {
+          if (isNull(val)) return this.#getParamBinding(null);
+
+          const num = Number(val);
+          if (typeof val === "bigint" && BigInt(num) !== val) {
+            throw new Error(
+              `Parameter ${paramNumber} mixes fractional numbers with the bigint ${val}, which cannot be widened to float without losing precision`,
+            );
+          }
+          return {
+            cType: CType.SQL_C_DOUBLE,
+            sqlType: SQLType.SQL_FLOAT,
+            buf: new Float64Array([num]),
+            colSize: 0n,
+            decimalDigits: 0,
+            bufLen: 8n,
+            lenIndBuf: new BigInt64Array([8n]),
+          };
+        });
+      } else {
+        throw new Error(
+          `Parameter ${paramNumber} mixes incompatible types across parameter sets`,
+        );
+      }
+    }
+
+    const nonNull = bindings.filter((_, i) => !isNull(values[i]));
+    const template = nonNull[0] ?? bindings[0];
+
+    // The precision and scale are set once for the whole array.
+    if (
+      template.cType === CType.SQL_C_NUMERIC &&
+      nonNull.some((binding) =>
+        binding.colSize !== template.colSize ||
+        binding.decimalDigits !== template.decimalDigits
+      )
+    ) {
+      throw new Error(
+        `Parameter ${paramNumber} mixes decimal precisions or scales across parameter sets`,
+      );
+    }
+
+    let elementSize = 2; // room for an empty wide string
+    let colSize = 0n;
+    let isMax = false;
+    for (const binding of nonNull) {
+      elementSize = Math.max(elementSize, binding.buf.byteLength);
+      if (binding.colSize > colSize) colSize = binding.colSize;
+      if (
+        binding.colSize === 0n &&
+        (binding.sqlType === SQLType.SQL_WVARCHAR ||
+          binding.sqlType === SQLType.SQL_VARBINARY)
+      ) {
+        isMax = true;
+      }
+    }
+
+    const buf = new Uint8Array(values.length * elementSize);
+    const lenIndBuf = new BigInt64Array(values.length);
+
+    bindings.forEach((binding, i) => {
+      if (isNull(values[i])) {
+        lenIndBuf[i] = BigInt(SQL_NULL_DATA);
+        return;
+      }
+      const { buffer, byteOffset, byteLength } = binding.buf;
+      buf.set(new Uint8Array(buffer, byteOffset, byteLength), i * elementSize);
+      lenIndBuf[i] = binding.lenIndBuf[0];
+    });
+
+    return {
+      cType: template.cType,
+      sqlType: template.sqlType,
+      buf,
+      colSize: isMax ? 0n : colSize,
+      decimalDigits: template.decimalDigits,
+      bufLen: BigInt(elementSize),
+      lenIndBuf,
+    };
+  }
+
+  /**
+   * Binds the columns of the current result set. When every column can be
+   * bound and `rowsetSize` is greater than 1, the columns are bound as arrays
+   * (`SQL_ATTR_ROW_ARRAY_SIZE`) so a single `SQLFetch` returns a whole rowset.
+   */
+  #bindCols(colCount: number, rowsetSize: number = this.#rowsetSize): void {
+    // Columns of a prepared statement stay bound between executions.
+    if (this.#cachedStatement?.colBindings) {
+      if (this.#cachedStatement.rowsetSize === rowsetSize) {
+        this.#colBindings = this.#cachedStatement.colBindings;
+        this.#columns = this.#cachedStatement.columns;
+        this.#rowsFetchedBuf = this.#cachedStatement.rowsFetchedBuf;
+        return;
+      }
+
+      // Bound for a different rowset size, start over.
+      this.#odbcLib.freeStmt(this.#stmtHandle, FreeStmtOption.SQL_UNBIND);
+      this.#colBindings = new Map();
+      this.#columns = [];
+    }
+
     /**
      * We use the following column binding strategy:
      * 1. Bind columns as long as they fit in our buffer.
      * 2. If we encounter a Large Object or MAX type, we stop binding.
      * 3. That column and ALL subsequent columns must be retrieved manually via
      * SQLGetData to respect the ODBC forward-only cursor rule.
+     * 4. SQLGetData only works on single-row rowsets, so block fetching is
+     * only used when no column is left unbound.
      */
     let manualGetDataMode = false;
+    const columns:
+      (ColumnMetadata & { allocSize: bigint; isBound: boolean })[] = [];
 
     for (let i = 1; i <= colCount; i++) {
-      const { colName, colSize, sqlType } = this.#odbcLib.describeCol(
-        this.#stmtHandle,
-        i,
-      );
+      const { colName, colSize, sqlType, decimalDigits, isNullable } = this
+        .#odbcLib.describeCol(
+          this.#stmtHandle,
+          i,
+        );
 
       const isSmallColumn = colSize !== 0n &&
         colSize <= MAX_BIND_SIZE &&
         sqlType !== SQLType.SQL_LONGVARCHAR &&
         sqlType !== SQLType.SQL_WLONGVARCHAR &&
-        sqlType !== SQLType.SQL_LONGVARBINARY;
+        sqlType !== SQLType.SQL_LONGVARBINARY &&
+        sqlType !== SQLType.SQL_SS_VARIANT; // base type differs per row
 
       if (!isSmallColumn) manualGetDataMode = true;
 
@@ -195,19 +1150,56 @@ export class OdbcRequest<R> {
         allocSize = MAX_BIND_SIZE;
       }
 
-      const isBound = !manualGetDataMode;
+      columns.push({
+        name: colName,
+        sqlType,
+        size: Number(colSize),
+        scale: decimalDigits,
+        isNullable,
+        allocSize,
+        isBound: !manualGetDataMode,
+      });
+    }
+
+    const arraySize = manualGetDataMode ? 1 : rowsetSize;
+
+    // Statement attributes outlive the result set (and cached executions), so
+    // they are reset whenever they might have been changed before.
+    if (rowsetSize > 1 || this.#cachedStatement) {
+      this.#rowsFetchedBuf = arraySize > 1 ? new BigInt64Array(1) : null;
+
+      this.#odbcLib.setStmtAttr(
+        this.#stmtHandle,
+        SQL_ATTR_ROW_ARRAY_SIZE,
+        Deno.UnsafePointer.create(BigInt(arraySize)),
+        SQL_IS_UINTEGER,
+      );
+      this.#odbcLib.setStmtAttr(
+        this.#stmtHandle,
+        SQL_ATTR_ROWS_FETCHED_PTR,
+        this.#rowsFetchedBuf && Deno.UnsafePointer.of(this.#rowsFetchedBuf),
+        SQL_IS_POINTER,
+      );
+    }
+
+    for (const [index, column] of columns.entries()) {
+      const { allocSize, isBound, ...metadata } = column;
+      const key = this.#getColumnKey(metadata.name, index + 1);
+      if (!metadata.name) metadata.name = key;
+      this.#columns.push(metadata);
 
       const binding = this.#getColBinding(
-        i,
+        index + 1,
         isBound,
-        sqlType,
+        metadata.sqlType,
         allocSize,
+        arraySize,
       );
 
       if (isBound) {
         this.#odbcLib.bindCol(
           this.#stmtHandle,
-          i,
+          index + 1,
           binding.cType,
           binding.buf,
           binding.bufLen,
@@ -215,26 +1207,123 @@ export class OdbcRequest<R> {
         );
       }
 
-      this.#colBindings.set(colName, binding);
+      this.#colBindings.set(key, binding);
+    }
+
+    if (this.#cachedStatement) {
+      this.#cachedStatement.colBindings = this.#colBindings;
+      this.#cachedStatement.columns = this.#columns;
+      this.#cachedStatement.rowsetSize = rowsetSize;
+      this.#cachedStatement.rowsFetchedBuf = this.#rowsFetchedBuf;
     }
   }
 
-  #getParamBinding(val: unknown): ParamBinding {
-    if (val === null || typeof val === "undefined" || val === undefined) {
-      return {
-        cType: CType.SQL_C_WCHAR, // dummy
-        sqlType: SQLType.SQL_WVARCHAR, // dummy
-        buf: new Uint8Array(),
-        colSize: 0n,
-        decimalDigits: 0,
-        bufLen: 0n,
-        lenIndBuf: new BigInt64Array([BigInt(SQL_NULL_DATA)]),
-      };
+  /**
+   * Adds the attributes of `SQLColAttributeW` to the column metadata when it
+   * was requested. Cached statements keep them between executions.
+   */
+  async #describeColumns(): Promise<void> {
+    await this.#describeUdtColumns();
+    if (!this.#columnMetadata) return;
+
+    for (const [i, column] of this.#columns.entries()) {
+      if (column.typeName !== undefined) continue;
+
+      const describe = (field: ColAttribute) =>
+        this.#odbcLib.colAttributeString(this.#stmtHandle, i + 1, field);
+
+      column.typeName = await describe(ColAttribute.SQL_DESC_TYPE_NAME);
+      column.baseTableName =
+        await describe(ColAttribute.SQL_DESC_BASE_TABLE_NAME) || undefined;
+      column.baseColumnName =
+        await describe(ColAttribute.SQL_DESC_BASE_COLUMN_NAME) || undefined;
     }
+  }
 
-    if (
-      typeof val === "bigint" ||
-      (typeof val === "number" && val % 1 === 0)
+  /**
+   * Looks up the type names of the UDT columns of the current result set when
+   * any of them are decoded.
+   */
+  async #describeUdtColumns(): Promise<void> {
+    this.#udtTypeNames.clear();
+    if (this.#spatial === "binary" && this.#hierarchyId === "binary") return;
+
+    for (const [i, column] of this.#columns.entries()) {
+      if (column.sqlType !== SQLType.SQL_SS_UDT) continue;
+
+      const typeName = await this.#odbcLib.colAttributeString(
+        this.#stmtHandle,
+        i + 1,
+        ColAttribute.SQL_CA_SS_UDT_TYPE_NAME,
+      );
+      this.#udtTypeNames.set(i + 1, typeName.toLowerCase());
+    }
+  }
+
+  /**
+   * Decodes the serialized value of a UDT column according to the configured
+   * representation of its type.
+   */
+  #decodeUdt(colNumber: number, value: Uint8Array): unknown {
+    const typeName = this.#udtTypeNames.get(colNumber);
+
+    if (typeName === "geography" || typeName === "geometry") {
+      if (this.#spatial === "binary") return value;
+      const geometry = decodeSpatial(value, typeName === "geography");
+      return this.#spatial === "wkt" ? formatWkt(geometry) : geometry;
+    }
+
+    if (typeName === "hierarchyid" && this.#hierarchyId === "string") {
+      return decodeHierarchyId(value);
+    }
+
+    return value;
+  }
+
+  /**
+   * Returns a copy of the column metadata when it was requested.
+   */
+  #getColumnMetadata(): ColumnMetadata[] | undefined {
+    if (!this.#columnMetadata) return undefined;
+    return this.#columns.map((column) => ({ ...column }));
+  }
+
+  /**
+   * Returns the row property of a column. Unnamed columns (e.g. expressions
+   * without an alias) are named after their position, and repeated names are
+   * handled according to the duplicate column policy.
+   */
+  #getColumnKey(name: string, colNumber: number): string {
+    const key = name || `column_${colNumber}`;
+    if (!this.#colBindings.has(key)) return key;
+
+    if (this.#duplicateColumns === "error") {
+      throw new Error(
+        `Duplicate column name "${key}" in result set, alias the column or change the duplicateColumns policy`,
+      );
+    }
+
+    let n = 2;
+    while (this.#colBindings.has(`${key}_${n}`)) n++;
+    return `${key}_${n}`;
+  }
+
+  #getParamBinding(val: unknown): ParamBinding {
+    if (val === null || typeof val === "undefined" || val === undefined) {
+      return {
+        cType: CType.SQL_C_WCHAR, // dummy
+        sqlType: SQLType.SQL_WVARCHAR, // dummy
+        buf: new Uint8Array(),
+        colSize: 0n,
+        decimalDigits: 0,
+        bufLen: 0n,
+        lenIndBuf: new BigInt64Array([BigInt(SQL_NULL_DATA)]),
+      };
+    }
+
+    if (
+      typeof val === "bigint" ||
+      (typeof val === "number" && val % 1 === 0)
     ) {
       // 32-bit integer
       if (val >= -2147483648 && val <= 2147483647) {
@@ -304,6 +1393,19 @@ export class OdbcRequest<R> {
       };
     }
 
+    if (isStreamParameter(val)) {
+      return {
+        cType: CType.SQL_C_BINARY,
+        sqlType: SQLType.SQL_VARBINARY,
+        buf: new Uint8Array(1), // its address identifies the parameter
+        colSize: 0n, // MAX
+        decimalDigits: 0,
+        bufLen: 0n,
+        lenIndBuf: new BigInt64Array([BigInt(SQL_DATA_AT_EXEC)]),
+        dataAtExec: val,
+      };
+    }
+
     if (ArrayBuffer.isView(val)) {
       const buf = new Uint8Array(val.buffer, val.byteOffset, val.byteLength);
       const bufLen = BigInt(buf.byteLength);
@@ -322,20 +1424,41 @@ export class OdbcRequest<R> {
     }
 
     if (val instanceof Date) {
-      if (isNaN(val.getTime())) {
-        throw new Error("Cannot bind Invalid Date object");
-      }
-      const bufLen = 16;
+      const bufLen = TIMESTAMP_STRUCT_SIZE;
       const buf = new Uint8Array(bufLen);
-      const view = new DataView(buf.buffer);
+      writeTimestamp(buf, dateToTimestamp(val, this.#dates));
 
-      view.setInt16(0, val.getUTCFullYear(), true);
-      view.setUint16(2, val.getUTCMonth() + 1, true);
-      view.setUint16(4, val.getUTCDate(), true);
-      view.setUint16(6, val.getUTCHours(), true);
-      view.setUint16(8, val.getUTCMinutes(), true);
-      view.setUint16(10, val.getUTCSeconds(), true);
-      view.setUint32(12, val.getUTCMilliseconds() * 1_000_000, true);
+      return {
+        cType: CType.SQL_C_TYPE_TIMESTAMP,
+        sqlType: SQLType.SQL_TYPE_TIMESTAMP,
+        buf,
+        colSize: 27n,
+        decimalDigits: 7,
+        bufLen: BigInt(bufLen),
+        lenIndBuf: new BigInt64Array([BigInt(bufLen)]),
+      };
+    }
+
+    if (val instanceof Temporal.PlainDate) {
+      const bufLen = DATE_STRUCT_SIZE;
+      const buf = new Uint8Array(bufLen);
+      writeDate(buf, val);
+
+      return {
+        cType: CType.SQL_C_TYPE_DATE,
+        sqlType: SQLType.SQL_TYPE_DATE,
+        buf,
+        colSize: 10n, // YYYY-MM-DD
+        decimalDigits: 0,
+        bufLen: BigInt(bufLen),
+        lenIndBuf: new BigInt64Array([BigInt(bufLen)]),
+      };
+    }
+
+    if (val instanceof Temporal.PlainDateTime) {
+      const bufLen = TIMESTAMP_STRUCT_SIZE;
+      const buf = new Uint8Array(bufLen);
+      writeTimestamp(buf, plainDateTimeToTimestamp(val));
 
       return {
         cType: CType.SQL_C_TYPE_TIMESTAMP,
@@ -348,6 +1471,24 @@ export class OdbcRequest<R> {
       };
     }
 
+    if (val instanceof Temporal.PlainTime) {
+      return getTypedParamBinding(time(val));
+    }
+
+    if (
+      val instanceof Temporal.Instant || val instanceof Temporal.ZonedDateTime
+    ) {
+      return getTypedParamBinding(datetimeoffset(val));
+    }
+
+    if (val instanceof ProcedureParameter) {
+      return getProcedureParamBinding(val, this.#dates);
+    }
+
+    if (val instanceof TypedParameter) {
+      return getTypedParamBinding(val);
+    }
+
     throw new Error(`Unsupported data type: ${val} (Type ${typeof val})`);
   }
 
@@ -356,15 +1497,18 @@ export class OdbcRequest<R> {
     isBound: boolean,
     sqlType: SQLType,
     colSize: bigint,
+    arraySize: number = 1,
   ): ColBinding {
-    const createInd = () => new BigInt64Array(1);
+    // With block fetching, every buffer holds `arraySize` elements of
+    // `bufLen` bytes each.
+    const createInd = () => new BigInt64Array(arraySize);
 
     if (sqlType === SQLType.SQL_INTEGER) {
       return {
         colNumber,
         isBound,
         cType: CType.SQL_C_SLONG,
-        buf: new Int32Array(1),
+        buf: new Int32Array(arraySize),
         bufLen: 4n,
         lenIndBuf: createInd(),
       };
@@ -375,7 +1519,7 @@ export class OdbcRequest<R> {
         colNumber,
         isBound,
         cType: CType.SQL_C_SBIGINT,
-        buf: new BigInt64Array(1),
+        buf: new BigInt64Array(arraySize),
         bufLen: 8n,
         lenIndBuf: createInd(),
       };
@@ -386,7 +1530,7 @@ export class OdbcRequest<R> {
         colNumber,
         isBound,
         cType: CType.SQL_C_UTINYINT,
-        buf: new Uint8Array(1),
+        buf: new Uint8Array(arraySize),
         bufLen: 1n,
         lenIndBuf: createInd(),
       };
@@ -397,13 +1541,14 @@ export class OdbcRequest<R> {
         colNumber,
         isBound,
         cType: CType.SQL_C_SSHORT,
-        buf: new Int16Array(1),
+        buf: new Int16Array(arraySize),
         bufLen: 2n,
         lenIndBuf: createInd(),
       };
     }
 
-    // Safest way is to bind SQL_NUMERIC and SQL_DECIMAL as strings since JS could loose precision when treating these as numbers
+    // Safest way is to bind SQL_NUMERIC and SQL_DECIMAL as strings since JS could loose precision when treating these as numbers.
+    // MONEY and SMALLMONEY are reported as SQL_DECIMAL with a scale of 4 and take the same path.
     if (
       sqlType === SQLType.SQL_NUMERIC ||
       sqlType === SQLType.SQL_DECIMAL
@@ -413,7 +1558,7 @@ export class OdbcRequest<R> {
         colNumber,
         isBound,
         cType: CType.SQL_C_WCHAR,
-        buf: new Uint16Array(len),
+        buf: new Uint16Array(len * arraySize),
         bufLen: BigInt(len * 2),
         lenIndBuf: createInd(),
       };
@@ -424,18 +1569,29 @@ export class OdbcRequest<R> {
         colNumber,
         isBound,
         cType: CType.SQL_C_DOUBLE,
-        buf: new Float64Array(1),
+        buf: new Float64Array(arraySize),
         bufLen: 8n,
         lenIndBuf: createInd(),
       };
     }
 
+    if (sqlType === SQLType.SQL_REAL) {
+      return {
+        colNumber,
+        isBound,
+        cType: CType.SQL_C_FLOAT,
+        buf: new Float32Array(arraySize),
+        bufLen: 4n,
+        lenIndBuf: createInd(),
+      };
+    }
+
     if (sqlType === SQLType.SQL_BIT) {
       return {
         colNumber,
         isBound,
         cType: CType.SQL_C_BIT,
-        buf: new Uint8Array(1),
+        buf: new Uint8Array(arraySize),
         bufLen: 1n,
         lenIndBuf: createInd(),
       };
@@ -444,14 +1600,15 @@ export class OdbcRequest<R> {
     if (
       sqlType === SQLType.SQL_BINARY ||
       sqlType === SQLType.SQL_VARBINARY ||
-      sqlType === SQLType.SQL_LONGVARBINARY
+      sqlType === SQLType.SQL_LONGVARBINARY ||
+      sqlType === SQLType.SQL_SS_UDT // read in its serialized form
     ) {
       const len = Number(colSize);
       return {
         colNumber,
         isBound,
         cType: CType.SQL_C_BINARY,
-        buf: new Uint8Array(len),
+        buf: new Uint8Array(len * arraySize),
         bufLen: colSize,
         lenIndBuf: createInd(),
       };
@@ -463,14 +1620,15 @@ export class OdbcRequest<R> {
       sqlType === SQLType.SQL_LONGVARCHAR ||
       sqlType === SQLType.SQL_WCHAR ||
       sqlType === SQLType.SQL_WVARCHAR ||
-      sqlType === SQLType.SQL_WLONGVARCHAR
+      sqlType === SQLType.SQL_WLONGVARCHAR ||
+      sqlType === SQLType.SQL_SS_XML // reported with a size of 0, read as LOB
     ) {
       const len = Number(colSize) + 1; // +1 for null terminator
       return {
         colNumber,
         isBound,
         cType: CType.SQL_C_WCHAR,
-        buf: new Uint16Array(len),
+        buf: new Uint16Array(len * arraySize),
         bufLen: BigInt(len * 2),
         lenIndBuf: createInd(),
       };
@@ -485,7 +1643,43 @@ export class OdbcRequest<R> {
         colNumber,
         isBound,
         cType: CType.SQL_C_TYPE_TIMESTAMP,
-        buf: new Uint8Array(len),
+        buf: new Uint8Array(len * arraySize),
+        bufLen: BigInt(len),
+        lenIndBuf: createInd(),
+      };
+    }
+
+    if (sqlType === SQLType.SQL_GUID) {
+      const len = GUID_SIZE;
+      return {
+        colNumber,
+        isBound,
+        cType: CType.SQL_C_GUID,
+        buf: new Uint8Array(len * arraySize),
+        bufLen: BigInt(len),
+        lenIndBuf: createInd(),
+      };
+    }
+
+    if (sqlType === SQLType.SQL_SS_TIME2) {
+      const len = TIME2_STRUCT_SIZE;
+      return {
+        colNumber,
+        isBound,
+        cType: CType.SQL_C_SS_TIME2,
+        buf: new Uint8Array(len * arraySize),
+        bufLen: BigInt(len),
+        lenIndBuf: createInd(),
+      };
+    }
+
+    if (sqlType === SQLType.SQL_SS_TIMESTAMPOFFSET) {
+      const len = TIMESTAMPOFFSET_STRUCT_SIZE;
+      return {
+        colNumber,
+        isBound,
+        cType: CType.SQL_C_SS_TIMESTAMPOFFSET,
+        buf: new Uint8Array(len * arraySize),
         bufLen: BigInt(len),
         lenIndBuf: createInd(),
       };
@@ -498,10 +1692,36 @@ export class OdbcRequest<R> {
     colBinding: ColBinding,
     initialChunk: Uint8Array | string,
   ): Promise<Uint8Array | string> {
-    const { colNumber, cType, buf, bufLen, lenIndBuf } = colBinding;
-
     const chunks: (Uint8Array | string)[] = [initialChunk];
 
+    for await (const chunk of this.#readRemainingChunks(colBinding)) {
+      chunks.push(chunk);
+    }
+
+    if (colBinding.cType === CType.SQL_C_WCHAR) {
+      return chunks.join("");
+    } else {
+      const totalLen = chunks.reduce((acc, p) => acc + p.length, 0);
+      const res = new Uint8Array(totalLen);
+      let offset = 0;
+      for (const p of chunks) {
+        const u8 = p as Uint8Array;
+        res.set(u8, offset);
+        offset += u8.length;
+      }
+      return res;
+    }
+  }
+
+  /**
+   * Reads the rest of a truncated column with `SQLGetData`, one buffer at a
+   * time.
+   */
+  async *#readRemainingChunks(
+    colBinding: ColBinding,
+  ): AsyncGenerator<Uint8Array | string> {
+    const { colNumber, cType, buf, bufLen, lenIndBuf } = colBinding;
+
     while (true) {
       const status = await this.#odbcLib.getData(
         this.#stmtHandle,
@@ -531,35 +1751,94 @@ export class OdbcRequest<R> {
 
         if (validChars > buf.length) validChars = buf.length;
 
-        chunks.push(bufToStr(buf as Uint16Array, validChars));
+        yield bufToStr(buf as Uint16Array, validChars);
       } else {
         const validBytes = isTruncated ? Number(bufLen) : byteLen;
-        chunks.push((buf as Uint8Array).slice(0, validBytes));
+        yield (buf as Uint8Array).slice(0, validBytes);
       }
 
       if (!isTruncated) break;
     }
+  }
 
-    if (cType === CType.SQL_C_WCHAR) {
-      return chunks.join("");
-    } else {
-      const totalLen = chunks.reduce((acc, p) => acc + p.length, 0);
-      const res = new Uint8Array(totalLen);
-      let offset = 0;
-      for (const p of chunks) {
-        const u8 = p as Uint8Array;
-        res.set(u8, offset);
-        offset += u8.length;
-      }
-      return res;
-    }
+  /**
+   * Returns a LOB column as a stream that pulls the rest of its value with
+   * `SQLGetData` as it is read. The stream is only readable until the next
+   * row is fetched.
+   */
+  #createLobStream(
+    colBinding: ColBinding,
+    initialChunk: Uint8Array | string,
+    isTruncated: boolean,
+  ): ReadableStream<Uint8Array | string> {
+    const rowNumber = this.#rowNumber;
+    const chunks = isTruncated ? this.#readRemainingChunks(colBinding) : null;
+    let pendingChunk: Uint8Array | string | null = initialChunk;
+
+    return new ReadableStream<Uint8Array | string>({
+      pull: async (controller) => {
+        if (pendingChunk !== null) {
+          controller.enqueue(pendingChunk);
+          pendingChunk = null;
+          if (!chunks) controller.close();
+          return;
+        }
+
+        if (this.#rowNumber !== rowNumber) {
+          throw new Error(
+            "LOB stream is no longer readable, the next row has been fetched",
+          );
+        }
+
+        const read = chunks!.next();
+        this.#pendingLobRead = read;
+        const { done, value } = await read;
+
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      },
+    }, { highWaterMark: 0 });
   }
 
-  async #readRow(): Promise<Record<string, unknown>> {
+  /**
+   * Reads the row at `rowIndex` of the current rowset. Unbound columns are
+   * only used with single-row rowsets, so their index is always `0`.
+   */
+  async #readRow(
+    rowIndex: number,
+  ): Promise<Record<string, unknown> | unknown[]> {
     const row: Record<string, unknown> = {};
 
-    for (const [colName, colBinding] of this.#colBindings) {
+    for (const [colName, columnBinding] of this.#colBindings) {
+      const column = this.#columns[columnBinding.colNumber - 1];
+      let colBinding = columnBinding;
+      let { sqlType, scale } = column;
+
+      // sql_variant columns are unbound and read as their base type.
+      if (sqlType === SQLType.SQL_SS_VARIANT) {
+        const baseType = await this.#getVariantType(colBinding.colNumber);
+        if (baseType === null) {
+          row[colName] = null;
+          continue;
+        }
+
+        sqlType = baseType;
+        scale = 0; // decimal strings carry every digit of their scale
+        colBinding = this.#getColBinding(
+          colBinding.colNumber,
+          false,
+          sqlType,
+          MAX_BIND_SIZE,
+        );
+      }
+
       const { buf, lenIndBuf, cType, bufLen, isBound, colNumber } = colBinding;
+      const isLobStream = this.#lobStreams && !isBound &&
+        colNumber === this.#columns.length &&
+        isLobColumn(column);
 
       /**
        * This can either be the length of the data after conversion and before truncation,
@@ -570,7 +1849,7 @@ export class OdbcRequest<R> {
       let isTruncated = false;
 
       if (isBound) {
-        byteLen = Number(lenIndBuf[0]);
+        byteLen = Number(lenIndBuf[rowIndex]);
 
         if (byteLen === SQL_NULL_DATA) {
           row[colName] = null;
@@ -599,7 +1878,19 @@ export class OdbcRequest<R> {
         isTruncated = status !== SQLRETURN.SQL_SUCCESS;
       }
 
-      let value: number | string | bigint | boolean | Uint8Array | Date;
+      let value:
+        | number
+        | string
+        | bigint
+        | boolean
+        | Uint8Array
+        | Date
+        | Temporal.PlainDate
+        | Temporal.PlainDateTime
+        | Temporal.PlainTime
+        | Temporal.ZonedDateTime
+        | DateTimeOffset
+        | ReadableStream<Uint8Array | string>;
 
       switch (cType) {
         /**
@@ -608,30 +1899,66 @@ export class OdbcRequest<R> {
         case CType.SQL_C_SLONG:
         case CType.SQL_C_SBIGINT:
         case CType.SQL_C_DOUBLE:
+        case CType.SQL_C_FLOAT:
         case CType.SQL_C_UTINYINT:
         case CType.SQL_C_SSHORT:
-          value = buf[0];
+          value = buf[rowIndex];
           break;
 
         case CType.SQL_C_BIT:
-          value = buf[0] === 1;
+          value = buf[rowIndex] === 1;
           break;
 
         case CType.SQL_C_TYPE_TIMESTAMP: {
-          const view = new DataView(buf.buffer, buf.byteOffset, buf.byteLength);
+          const offset = rowIndex * Number(bufLen);
+          value = formatTimestamp(
+            readTimestamp(
+              (buf as Uint8Array<ArrayBuffer>).subarray(
+                offset,
+                offset + Number(bufLen),
+              ),
+            ),
+            this.#dates,
+            sqlType === SQLType.SQL_TYPE_DATE,
+          );
+          break;
+        }
 
-          const year = view.getInt16(0, true); // SQLSMALLINT
-          const month = view.getUint16(2, true); // SQLUSMALLINT
-          const day = view.getUint16(4, true); // SQLUSMALLINT
-          const hour = view.getUint16(6, true); // SQLUSMALLINT
-          const minute = view.getUint16(8, true); // SQLUSMALLINT
-          const second = view.getUint16(10, true); // SQLUSMALLINT
-          const fraction = view.getUint32(12, true); // SQLUINTEGER
+        case CType.SQL_C_GUID: {
+          const offset = rowIndex * Number(bufLen);
+          value = readGuid(
+            (buf as Uint8Array<ArrayBuffer>).subarray(
+              offset,
+              offset + Number(bufLen),
+            ),
+          );
+          break;
+        }
 
-          const ms = Math.round(fraction / 1_000_000);
+        case CType.SQL_C_SS_TIME2: {
+          const offset = rowIndex * Number(bufLen);
+          value = formatTime(
+            readTime(
+              (buf as Uint8Array<ArrayBuffer>).subarray(
+                offset,
+                offset + Number(bufLen),
+              ),
+            ),
+            this.#time,
+          );
+          break;
+        }
 
-          value = new Date(
-            Date.UTC(year, month - 1, day, hour, minute, second, ms), // month is zero indexed
+        case CType.SQL_C_SS_TIMESTAMPOFFSET: {
+          const offset = rowIndex * Number(bufLen);
+          value = formatDateTimeOffset(
+            readDateTimeOffset(
+              (buf as Uint8Array<ArrayBuffer>).subarray(
+                offset,
+                offset + Number(bufLen),
+              ),
+            ),
+            this.#datetimeOffset,
           );
           break;
         }
@@ -641,30 +1968,51 @@ export class OdbcRequest<R> {
          */
         case CType.SQL_C_BINARY: {
           const validBytes = isTruncated ? Number(bufLen) : byteLen;
-          const initialChunk = (buf as Uint8Array).slice(0, validBytes);
+          const offset = rowIndex * Number(bufLen);
+          const initialChunk = (buf as Uint8Array).slice(
+            offset,
+            offset + validBytes,
+          );
 
-          value = isTruncated
-            ? await this.#fetchRemainingData(colBinding, initialChunk)
-            : initialChunk;
+          if (isLobStream) {
+            value = this.#createLobStream(
+              colBinding,
+              initialChunk,
+              isTruncated,
+            );
+          } else {
+            value = isTruncated
+              ? await this.#fetchRemainingData(colBinding, initialChunk)
+              : initialChunk;
+          }
 
           break;
         }
 
         case CType.SQL_C_WCHAR: {
+          const elementChars = Number(bufLen) / 2;
+          const element = (buf as Uint16Array).subarray(
+            rowIndex * elementChars,
+            (rowIndex + 1) * elementChars,
+          );
           let validChars = 0;
 
           if (isTruncated) {
-            validChars = Number(bufLen) / 2;
-            if (buf[validChars - 1] === 0) validChars--;
+            validChars = elementChars;
+            if (element[validChars - 1] === 0) validChars--;
           } else {
             validChars = byteLen / 2;
           }
 
-          const initialStr = bufToStr(buf as Uint16Array, validChars);
+          const initialStr = bufToStr(element, validChars);
 
-          value = isTruncated
-            ? await this.#fetchRemainingData(colBinding, initialStr)
-            : initialStr;
+          if (isLobStream) {
+            value = this.#createLobStream(colBinding, initialStr, isTruncated);
+          } else {
+            value = isTruncated
+              ? await this.#fetchRemainingData(colBinding, initialStr)
+              : initialStr;
+          }
 
           break;
         }
@@ -673,16 +2021,1119 @@ export class OdbcRequest<R> {
           throw new Error(`Unknown binding C-Type: ${cType}`);
       }
 
+      if (
+        typeof value === "string" && this.#decimal !== "string" &&
+        isDecimalType(sqlType)
+      ) {
+        row[colName] = convertDecimal(value, scale, this.#decimal);
+        continue;
+      }
+
+      if (
+        typeof value === "string" && this.#xml &&
+        sqlType === SQLType.SQL_SS_XML
+      ) {
+        row[colName] = this.#xml(value);
+        continue;
+      }
+
+      if (value instanceof Uint8Array && sqlType === SQLType.SQL_SS_UDT) {
+        row[colName] = this.#decodeUdt(colNumber, value);
+        continue;
+      }
+
       row[colName] = value;
     }
 
+    if (this.#duplicateColumns === "array") {
+      return Array.from(this.#colBindings.keys(), (key) => row[key]);
+    }
+
     return row;
   }
 
+  /**
+   * Returns the SQL type of the `sql_variant` value in the current row, `null`
+   * if the value is NULL. The driver only reports the base type once the value
+   * has been read, so it is read into an empty buffer first.
+   */
+  async #getVariantType(colNumber: number): Promise<SQLType | null> {
+    const lenIndBuf = new BigInt64Array(1);
+
+    await this.#odbcLib.getData(
+      this.#stmtHandle,
+      colNumber,
+      CType.SQL_C_BINARY,
+      new Uint8Array(1),
+      0n,
+      lenIndBuf,
+    );
+
+    if (Number(lenIndBuf[0]) === SQL_NULL_DATA) return null;
+
+    const cType = await this.#odbcLib.colAttributeNumber(
+      this.#stmtHandle,
+      colNumber,
+      ColAttribute.SQL_CA_SS_VARIANT_TYPE,
+    );
+
+    const sqlType = VARIANT_SQL_TYPES.get(cType);
+    if (sqlType === undefined) {
+      throw new Error(`Unsupported sql_variant base type: C-Type ${cType}`);
+    }
+
+    return sqlType;
+  }
+
   async *#fetchRow(): AsyncGenerator<R> {
-    while (await this.#odbcLib.fetch(this.#stmtHandle)) {
-      const row = await this.#readRow();
-      yield row as R;
+    while (await this.#nextRow()) {
+      const rowCount = this.#rowsFetchedBuf
+        ? Number(this.#rowsFetchedBuf[0])
+        : 1;
+
+      for (let i = 0; i < rowCount; i++) {
+        const row = await this.#readRow(i);
+        yield row as R;
+      }
     }
   }
+
+  async #nextRow(): Promise<boolean> {
+    // An abort while no ODBC call is running (e.g. between two chunks of a
+    // stream) cancels nothing on the server, so it is checked before fetching.
+    if (this.#signal?.aborted) throw createAbortError();
+
+    // Invalidate the LOB streams of the previous row, and let a read that is
+    // still running on the statement finish first.
+    this.#rowNumber++;
+    await this.#pendingLobRead?.catch(() => {});
+    this.#pendingLobRead = null;
+
+    return await this.#odbcLib.fetch(this.#stmtHandle);
+  }
+}
+
+function isStreamParameter(val: unknown): val is StreamParameter {
+  return val instanceof ReadableStream || val instanceof Blob ||
+    val instanceof Deno.FsFile;
+}
+
+/**
+ * Reads a streamed parameter in chunks. Files are read from their current
+ * position and left open.
+ */
+async function* readStreamParameter(
+  param: StreamParameter,
+): AsyncGenerator<Uint8Array<ArrayBuffer>> {
+  if (param instanceof Deno.FsFile) {
+    const buf = new Uint8Array(PUT_DATA_CHUNK_SIZE);
+    let bytesRead: number | null;
+    while ((bytesRead = await param.read(buf)) !== null) {
+      yield buf.subarray(0, bytesRead);
+    }
+    return;
+  }
+
+  const stream = param instanceof Blob ? param.stream() : param;
+  for await (const chunk of stream) {
+    if (!(chunk instanceof Uint8Array)) {
+      throw new TypeError("Streamed parameters must yield Uint8Array chunks");
+    }
+    yield chunk as Uint8Array<ArrayBuffer>;
+  }
+}
+
+/**
+ * Whether the column is a LOB (`max`) type that can only be read with
+ * `SQLGetData`.
+ */
+function isLobColumn(column: ColumnMetadata): boolean {
+  return column.size === 0 ||
+    column.sqlType === SQLType.SQL_LONGVARCHAR ||
+    column.sqlType === SQLType.SQL_WLONGVARCHAR ||
+    column.sqlType === SQLType.SQL_LONGVARBINARY;
+}
+
+/**
+ * The fields of a `SQL_TIMESTAMP_STRUCT`.
+ */
+type TimestampParts = TimeParts & {
+  year: number;
+  month: number;
+  day: number;
+};
+
+/**
+ * Converts a `Date` into its UTC or, with `local`, its local date and time.
+ */
+export function dateToTimestamp(
+  date: Date,
+  representation: DateRepresentation,
+): TimestampParts {
+  if (isNaN(date.getTime())) {
+    throw new Error("Cannot bind Invalid Date object");
+  }
+
+  if (representation === "local") {
+    return {
+      year: date.getFullYear(),
+      month: date.getMonth() + 1,
+      day: date.getDate(),
+      hour: date.getHours(),
+      minute: date.getMinutes(),
+      second: date.getSeconds(),
+      fraction: date.getMilliseconds() * NS_PER_MS,
+    };
+  }
+
+  return {
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+    hour: date.getUTCHours(),
+    minute: date.getUTCMinutes(),
+    second: date.getUTCSeconds(),
+    fraction: date.getUTCMilliseconds() * NS_PER_MS,
+  };
+}
+
+/**
+ * Converts a `Temporal.PlainDateTime`, truncating precision beyond 100ns.
+ */
+export function plainDateTimeToTimestamp(
+  dateTime: Temporal.PlainDateTime,
+): TimestampParts {
+  const { year, month, day, hour, minute, second } = dateTime;
+  const nanoseconds = dateTime.millisecond * NS_PER_MS +
+    dateTime.microsecond * 1000 + dateTime.nanosecond;
+
+  return {
+    year,
+    month,
+    day,
+    hour,
+    minute,
+    second,
+    fraction: nanoseconds - nanoseconds % 100,
+  };
+}
+
+/**
+ * Writes a `SQL_TIMESTAMP_STRUCT` buffer.
+ */
+function writeTimestamp(buf: Uint8Array, parts: TimestampParts): void {
+  const view = new DataView(buf.buffer, buf.byteOffset, buf.byteLength);
+
+  view.setInt16(0, parts.year, true);
+  view.setUint16(2, parts.month, true);
+  view.setUint16(4, parts.day, true);
+  view.setUint16(6, parts.hour, true);
+  view.setUint16(8, parts.minute, true);
+  view.setUint16(10, parts.second, true);
+  view.setUint32(12, parts.fraction, true);
+}
+
+/**
+ * Writes a `Temporal.PlainDate` into a `SQL_DATE_STRUCT` buffer.
+ */
+function writeDate(buf: Uint8Array, date: Temporal.PlainDate): void {
+  const view = new DataView(buf.buffer, buf.byteOffset, buf.byteLength);
+
+  view.setInt16(0, date.year, true);
+  view.setUint16(2, date.month, true);
+  view.setUint16(4, date.day, true);
+}
+
+/**
+ * Reads a `SQL_TIMESTAMP_STRUCT` buffer.
+ */
+function readTimestamp(
+  buf: ColBinding["buf"] | ParamBinding["buf"],
+): TimestampParts {
+  const view = new DataView(buf.buffer, buf.byteOffset, buf.byteLength);
+
+  return {
+    year: view.getInt16(0, true), // SQLSMALLINT
+    month: view.getUint16(2, true), // SQLUSMALLINT
+    day: view.getUint16(4, true), // SQLUSMALLINT
+    hour: view.getUint16(6, true), // SQLUSMALLINT
+    minute: view.getUint16(8, true), // SQLUSMALLINT
+    second: view.getUint16(10, true), // SQLUSMALLINT
+    fraction: view.getUint32(12, true), // SQLUINTEGER
+  };
+}
+
+/**
+ * Formats a timestamp as `YYYY-MM-DD`, or as `YYYY-MM-DDTHH:MM:SS.fffffff` with
+ * the full 100ns precision unless `isDate` is set.
+ */
+export function timestampToString(
+  parts: TimestampParts,
+  isDate: boolean,
+): string {
+  const { year, month, day } = parts;
+  const pad = (n: number, length = 2) => n.toString().padStart(length, "0");
+  const date = `${pad(year, 4)}-${pad(month)}-${pad(day)}`;
+  return isDate ? date : `${date}T${formatTime(parts, "string")}`;
+}
+
+function toPlainDateTime(parts: TimestampParts): Temporal.PlainDateTime {
+  const { year, month, day, hour, minute, second, fraction } = parts;
+
+  return new Temporal.PlainDateTime(
+    year,
+    month,
+    day,
+    hour,
+    minute,
+    second,
+    Math.floor(fraction / NS_PER_MS),
+    Math.floor(fraction / 1000) % 1000,
+    fraction % 1000,
+  );
+}
+
+function formatTimestamp(
+  parts: TimestampParts,
+  representation: DateRepresentation,
+  isDate: boolean,
+): Date | string | Temporal.PlainDate | Temporal.PlainDateTime {
+  const { year, month, day, hour, minute, second, fraction } = parts;
+
+  switch (representation) {
+    case "string":
+      return timestampToString(parts, isDate);
+    case "temporal":
+      return isDate
+        ? new Temporal.PlainDate(year, month, day)
+        : toPlainDateTime(parts);
+    case "local":
+      return new Date(
+        year,
+        month - 1, // month is zero indexed
+        day,
+        hour,
+        minute,
+        second,
+        Math.round(fraction / NS_PER_MS),
+      );
+    default:
+      return new Date(
+        Date.UTC(
+          year,
+          month - 1, // month is zero indexed
+          day,
+          hour,
+          minute,
+          second,
+          Math.round(fraction / NS_PER_MS),
+        ),
+      );
+  }
+}
+
+/**
+ * Reads a `SQLGUID` struct into its canonical lowercase string. `Data1`,
+ * `Data2` and `Data3` are little-endian integers, `Data4` is stored as bytes.
+ */
+function readGuid(buf: Uint8Array<ArrayBuffer>): string {
+  const view = new DataView(buf.buffer, buf.byteOffset, buf.byteLength);
+  const hex = (bytes: Uint8Array) =>
+    Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+
+  return [
+    view.getUint32(0, true).toString(16).padStart(8, "0"),
+    view.getUint16(4, true).toString(16).padStart(4, "0"),
+    view.getUint16(6, true).toString(16).padStart(4, "0"),
+    hex(buf.subarray(8, 10)),
+    hex(buf.subarray(10, 16)),
+  ].join("-");
+}
+
+/**
+ * Writes a UUID string into a `SQLGUID` struct.
+ */
+function writeGuid(buf: Uint8Array, value: string): void {
+  const match =
+    /^\{?([\da-f]{8})-([\da-f]{4})-([\da-f]{4})-([\da-f]{4})-([\da-f]{12})\}?$/i
+      .exec(value);
+  if (!match) {
+    throw new Error(`Invalid GUID: "${value}"`);
+  }
+
+  const view = new DataView(buf.buffer, buf.byteOffset, buf.byteLength);
+  const [, data1, data2, data3, ...data4] = match;
+
+  view.setUint32(0, parseInt(data1, 16), true);
+  view.setUint16(4, parseInt(data2, 16), true);
+  view.setUint16(6, parseInt(data3, 16), true);
+  data4.join("").match(/../g)!.forEach((byte, i) => {
+    view.setUint8(8 + i, parseInt(byte, 16));
+  });
+}
+
+type TimeParts = {
+  hour: number;
+  minute: number;
+  second: number;
+  /**
+   * Nanoseconds, in steps of 100ns.
+   */
+  fraction: number;
+};
+
+const NS_PER_MS = 1_000_000;
+const MS_PER_DAY = 86_400_000;
+
+/**
+ * Reads a `SQL_SS_TIME2_STRUCT` buffer.
+ */
+function readTime(buf: Uint8Array<ArrayBuffer>): TimeParts {
+  const view = new DataView(buf.buffer, buf.byteOffset, buf.byteLength);
+
+  return {
+    hour: view.getUint16(0, true), // SQLUSMALLINT
+    minute: view.getUint16(2, true), // SQLUSMALLINT
+    second: view.getUint16(4, true), // SQLUSMALLINT
+    fraction: view.getUint32(8, true), // SQLUINTEGER, after 2 padding bytes
+  };
+}
+
+/**
+ * Writes a time into a `SQL_SS_TIME2_STRUCT` buffer.
+ */
+function writeTime(buf: Uint8Array, parts: TimeParts): void {
+  const view = new DataView(buf.buffer, buf.byteOffset, buf.byteLength);
+
+  view.setUint16(0, parts.hour, true);
+  view.setUint16(2, parts.minute, true);
+  view.setUint16(4, parts.second, true);
+  view.setUint32(8, parts.fraction, true);
+}
+
+function formatTime(
+  { hour, minute, second, fraction }: TimeParts,
+  representation: TimeRepresentation,
+): string | number | Temporal.PlainTime {
+  switch (representation) {
+    case "milliseconds":
+      return (hour * 3600 + minute * 60 + second) * 1000 +
+        fraction / NS_PER_MS;
+    case "temporal":
+      return new Temporal.PlainTime(
+        hour,
+        minute,
+        second,
+        Math.floor(fraction / NS_PER_MS),
+        Math.floor(fraction / 1000) % 1000,
+        fraction % 1000,
+      );
+    default:
+      return [hour, minute, second]
+        .map((part) => part.toString().padStart(2, "0"))
+        .join(":") + "." + (fraction / 100).toString().padStart(7, "0");
+  }
+}
+
+/**
+ * Converts the value of a `time` parameter into its parts. Precision beyond
+ * 100ns is truncated.
+ */
+function parseTime(value: string | number | Temporal.PlainTime): TimeParts {
+  if (value instanceof Temporal.PlainTime) {
+    return {
+      hour: value.hour,
+      minute: value.minute,
+      second: value.second,
+      fraction: Math.floor(
+        (value.millisecond * NS_PER_MS + value.microsecond * 1000 +
+          value.nanosecond) / 100,
+      ) * 100,
+    };
+  }
+
+  if (typeof value === "number") {
+    if (!Number.isFinite(value) || value < 0 || value >= MS_PER_DAY) {
+      throw new Error(`Invalid time: ${value} ms since midnight`);
+    }
+    // Integer arithmetic in units of 100ns, rounded to absorb floating point
+    // noise of fractional milliseconds.
+    const ticks = Math.min(Math.round(value * 10_000), MS_PER_DAY * 10_000 - 1);
+    return {
+      hour: Math.floor(ticks / 36_000_000_000),
+      minute: Math.floor(ticks / 600_000_000) % 60,
+      second: Math.floor(ticks / 10_000_000) % 60,
+      fraction: (ticks % 10_000_000) * 100,
+    };
+  }
+
+  const match = /^(\d{1,2}):(\d{2})(?::(\d{2})(?:\.(\d{1,9}))?)?$/.exec(value);
+  const [hour, minute, second] = [match?.[1], match?.[2], match?.[3]]
+    .map((part) => Number(part ?? 0));
+  if (!match || hour > 23 || minute > 59 || second > 59) {
+    throw new Error(`Invalid time: "${value}"`);
+  }
+
+  const nanoseconds = Number((match[4] ?? "").padEnd(9, "0"));
+  return {
+    hour,
+    minute,
+    second,
+    fraction: Math.floor(nanoseconds / 100) * 100,
+  };
+}
+
+type DateTimeOffsetParts = TimeParts & {
+  year: number;
+  month: number;
+  day: number;
+  /**
+   * Offset from UTC in minutes.
+   */
+  offset: number;
+};
+
+const MAX_OFFSET_MINUTES = 840;
+
+/**
+ * Reads a `SQL_SS_TIMESTAMPOFFSET_STRUCT` buffer. The date and time fields
+ * hold the local time at the stored offset.
+ */
+function readDateTimeOffset(
+  buf: Uint8Array<ArrayBuffer>,
+): DateTimeOffsetParts {
+  const view = new DataView(buf.buffer, buf.byteOffset, buf.byteLength);
+
+  return {
+    year: view.getInt16(0, true), // SQLSMALLINT
+    month: view.getUint16(2, true), // SQLUSMALLINT
+    day: view.getUint16(4, true), // SQLUSMALLINT
+    hour: view.getUint16(6, true), // SQLUSMALLINT
+    minute: view.getUint16(8, true), // SQLUSMALLINT
+    second: view.getUint16(10, true), // SQLUSMALLINT
+    fraction: view.getUint32(12, true), // SQLUINTEGER
+    // timezone_hour and timezone_minute (SQLSMALLINT) share the sign.
+    offset: view.getInt16(16, true) * 60 + view.getInt16(18, true),
+  };
+}
+
+/**
+ * Writes a `SQL_SS_TIMESTAMPOFFSET_STRUCT` buffer.
+ */
+function writeDateTimeOffset(buf: Uint8Array, parts: DateTimeOffsetParts) {
+  const view = new DataView(buf.buffer, buf.byteOffset, buf.byteLength);
+
+  view.setInt16(0, parts.year, true);
+  view.setUint16(2, parts.month, true);
+  view.setUint16(4, parts.day, true);
+  view.setUint16(6, parts.hour, true);
+  view.setUint16(8, parts.minute, true);
+  view.setUint16(10, parts.second, true);
+  view.setUint32(12, parts.fraction, true);
+  view.setInt16(16, Math.trunc(parts.offset / 60), true);
+  view.setInt16(18, parts.offset % 60, true);
+}
+
+function formatDateTimeOffset(
+  parts: DateTimeOffsetParts,
+  representation: DateTimeOffsetRepresentation,
+): string | DateTimeOffset | Temporal.ZonedDateTime {
+  const { year, month, day, hour, minute, second, fraction, offset } = parts;
+
+  if (representation === "temporal") {
+    return toPlainDateTime(parts).toZonedDateTime(formatOffset(offset));
+  }
+
+  if (representation === "date") {
+    const localTime = Date.UTC(
+      year,
+      month - 1, // month is zero indexed
+      day,
+      hour,
+      minute,
+      second,
+      Math.floor(fraction / NS_PER_MS),
+    );
+    return { date: new Date(localTime - offset * 60_000), offset };
+  }
+
+  return timestampToString(parts, false) + formatOffset(offset);
+}
+
+/**
+ * Formats an offset from UTC in minutes as `±HH:MM`.
+ */
+function formatOffset(offset: number): string {
+  const pad = (n: number) => n.toString().padStart(2, "0");
+  const absOffset = Math.abs(offset);
+
+  return `${offset < 0 ? "-" : "+"}${pad(Math.floor(absOffset / 60))}:` +
+    pad(absOffset % 60);
+}
+
+/**
+ * Converts the value of a `datetimeoffset` parameter into its parts. A `Date`
+ * or `Temporal.Instant` is converted to its local time at `offset` minutes
+ * from UTC, precision beyond 100ns is truncated.
+ */
+function parseDateTimeOffset(
+  value: TypedParameterTypes["datetimeoffset"],
+  offset: number = 0,
+): DateTimeOffsetParts {
+  const assertOffset = (offset: number) => {
+    if (!Number.isInteger(offset) || Math.abs(offset) > MAX_OFFSET_MINUTES) {
+      throw new Error(`Invalid offset: ${offset} minutes`);
+    }
+  };
+
+  if (value instanceof Temporal.Instant) {
+    assertOffset(offset);
+    value = value.toZonedDateTimeISO(formatOffset(offset));
+  }
+
+  if (value instanceof Temporal.ZonedDateTime) {
+    const zonedOffset = value.offsetNanoseconds / (60 * 1_000_000_000);
+    assertOffset(zonedOffset);
+    return {
+      ...plainDateTimeToTimestamp(value.toPlainDateTime()),
+      offset: zonedOffset,
+    };
+  }
+
+  if (value instanceof Date) {
+    if (isNaN(value.getTime())) {
+      throw new Error("Cannot bind Invalid Date object");
+    }
+    assertOffset(offset);
+
+    const local = new Date(value.getTime() + offset * 60_000);
+    return {
+      year: local.getUTCFullYear(),
+      month: local.getUTCMonth() + 1,
+      day: local.getUTCDate(),
+      hour: local.getUTCHours(),
+      minute: local.getUTCMinutes(),
+      second: local.getUTCSeconds(),
+      fraction: local.getUTCMilliseconds() * NS_PER_MS,
+      offset,
+    };
+  }
+
+  const match =
+    /^(\d{4})-(\d{2})-(\d{2})[T ]([\d:.]+?)(Z|([+-])(\d{2}):(\d{2}))$/i.exec(
+      value,
+    );
+  if (!match) {
+    throw new Error(`Invalid datetimeoffset: "${value}"`);
+  }
+
+  const [, year, month, day, timeStr, , sign, offsetHour, offsetMinute] = match;
+  const parsedOffset = sign
+    ? (sign === "-" ? -1 : 1) * (Number(offsetHour) * 60 + Number(offsetMinute))
+    : 0;
+  if (Math.abs(parsedOffset) > MAX_OFFSET_MINUTES) {
+    throw new Error(`Invalid datetimeoffset: "${value}"`);
+  }
+
+  return {
+    year: Number(year),
+    month: Number(month),
+    day: Number(day),
+    ...parseTime(timeStr),
+    offset: parsedOffset,
+  };
+}
+
+const NUMERIC_STRUCT_SIZE = 19;
+const MAX_DECIMAL_PRECISION = 38;
+const DECIMAL_PATTERN = /^([+-]?)(\d*)(?:\.(\d*))?$/;
+
+/**
+ * Returns `true` for types read as decimal strings, including `money` and
+ * `smallmoney` which are reported as `SQL_DECIMAL`.
+ */
+function isDecimalType(sqlType: SQLType): boolean {
+  return sqlType === SQLType.SQL_DECIMAL || sqlType === SQLType.SQL_NUMERIC;
+}
+
+/**
+ * Maps the C type of a `sql_variant` base type, as reported by
+ * `SQL_CA_SS_VARIANT_TYPE`, to the SQL type whose column binding reads it.
+ */
+const VARIANT_SQL_TYPES: ReadonlyMap<number, SQLType> = new Map([
+  [CType.SQL_C_SLONG, SQLType.SQL_INTEGER],
+  [CType.SQL_C_SBIGINT, SQLType.SQL_BIGINT],
+  [CType.SQL_C_SSHORT, SQLType.SQL_SMALLINT],
+  [CType.SQL_C_UTINYINT, SQLType.SQL_TINYINT],
+  [CType.SQL_C_BIT, SQLType.SQL_BIT],
+  [CType.SQL_C_DOUBLE, SQLType.SQL_FLOAT],
+  [CType.SQL_C_FLOAT, SQLType.SQL_REAL],
+  [CType.SQL_C_NUMERIC, SQLType.SQL_NUMERIC],
+  [CType.SQL_C_CHAR, SQLType.SQL_VARCHAR],
+  [CType.SQL_C_WCHAR, SQLType.SQL_WVARCHAR],
+  [CType.SQL_C_BINARY, SQLType.SQL_VARBINARY],
+  [CType.SQL_C_TYPE_DATE, SQLType.SQL_TYPE_DATE],
+  [CType.SQL_C_TYPE_TIMESTAMP, SQLType.SQL_TYPE_TIMESTAMP],
+  [CType.SQL_C_SS_TIME2, SQLType.SQL_SS_TIME2],
+  [CType.SQL_C_SS_TIMESTAMPOFFSET, SQLType.SQL_SS_TIMESTAMPOFFSET],
+  [CType.SQL_C_GUID, SQLType.SQL_GUID],
+]);
+
+/**
+ * Converts a decimal string returned by the driver (e.g. `-.50`) into its
+ * configured representation.
+ */
+function convertDecimal(
+  value: string,
+  scale: number,
+  representation: Exclude<DecimalRepresentation, "string">,
+): unknown {
+  if (typeof representation === "function") return representation(value);
+  if (representation === "number") return Number(value);
+
+  const match = DECIMAL_PATTERN.exec(value);
+  if (!match) {
+    throw new Error(`Invalid decimal: "${value}"`);
+  }
+
+  const [, sign, integer, fraction = ""] = match;
+  const unscaled = BigInt(integer + fraction.padEnd(scale, "0") || "0");
+  return sign === "-" ? -unscaled : unscaled;
+}
+
+/**
+ * Writes a `SQL_NUMERIC_STRUCT` buffer holding `value` as an unscaled integer
+ * with `scale` fractional digits.
+ */
+function writeNumeric(
+  buf: Uint8Array,
+  value: string | number | bigint,
+  precision: number,
+  scale: number,
+): void {
+  if (
+    !Number.isInteger(precision) || precision < 1 ||
+    precision > MAX_DECIMAL_PRECISION
+  ) {
+    throw new Error(`Invalid decimal precision: ${precision}`);
+  }
+  if (!Number.isInteger(scale) || scale < 0 || scale > precision) {
+    throw new Error(`Invalid decimal scale: ${scale}`);
+  }
+
+  let str: string;
+  if (typeof value === "number") {
+    if (!Number.isFinite(value)) {
+      throw new Error(`Invalid decimal: ${value}`);
+    }
+    // toFixed switches to exponential notation from 1e21, where every
+    // number is an integer.
+    str = Math.abs(value) < 1e21
+      ? value.toFixed(scale)
+      : BigInt(value).toString();
+  } else {
+    str = value.toString();
+  }
+
+  const match = DECIMAL_PATTERN.exec(str);
+  if (!match || !/\d/.test(str)) {
+    throw new Error(`Invalid decimal: "${str}"`);
+  }
+
+  const [, sign, integer, fraction = ""] = match;
+  let unscaled = BigInt(
+    integer + fraction.slice(0, scale).padEnd(scale, "0") || "0",
+  );
+  // Round half away from zero.
+  if (fraction.length > scale && fraction[scale] >= "5") unscaled++;
+
+  if (unscaled >= 10n ** BigInt(precision)) {
+    throw new Error(
+      `Decimal value ${str} does not fit in decimal(${precision}, ${scale})`,
+    );
+  }
+
+  buf[0] = precision; // SQLCHAR
+  buf[1] = scale; // SQLSCHAR
+  buf[2] = sign === "-" && unscaled !== 0n ? 0 : 1; // 1 if positive
+  // val: SQLCHAR[16], little endian
+  for (let i = 3; i < NUMERIC_STRUCT_SIZE; i++) {
+    buf[i] = Number(unscaled & 0xffn);
+    unscaled >>= 8n;
+  }
+}
+
+/**
+ * Builds the binding of a value bound explicitly as a SQL Server type.
+ */
+function getTypedParamBinding(
+  typedParam: TypedParameter<TypedParameterType>,
+): ParamBinding {
+  // Narrows the value along with the type.
+  const param = typedParam as {
+    [T in TypedParameterType]: TypedParameter<T>;
+  }[TypedParameterType];
+
+  switch (param.type) {
+    case "time": {
+      const bufLen = TIME2_STRUCT_SIZE;
+      const buf = new Uint8Array(bufLen);
+      writeTime(buf, parseTime(param.value));
+
+      return {
+        cType: CType.SQL_C_SS_TIME2,
+        sqlType: SQLType.SQL_SS_TIME2,
+        buf,
+        colSize: 16n, // HH:MM:SS.fffffff
+        decimalDigits: 7,
+        bufLen: BigInt(bufLen),
+        lenIndBuf: new BigInt64Array([BigInt(bufLen)]),
+      };
+    }
+
+    case "datetimeoffset": {
+      const bufLen = TIMESTAMPOFFSET_STRUCT_SIZE;
+      const buf = new Uint8Array(bufLen);
+      writeDateTimeOffset(
+        buf,
+        parseDateTimeOffset(param.value, param.options.offset),
+      );
+
+      return {
+        cType: CType.SQL_C_SS_TIMESTAMPOFFSET,
+        sqlType: SQLType.SQL_SS_TIMESTAMPOFFSET,
+        buf,
+        colSize: 34n, // YYYY-MM-DD HH:MM:SS.fffffff +HH:MM
+        decimalDigits: 7,
+        bufLen: BigInt(bufLen),
+        lenIndBuf: new BigInt64Array([BigInt(bufLen)]),
+      };
+    }
+
+    case "real": {
+      const bufLen = 4n;
+      return {
+        cType: CType.SQL_C_FLOAT,
+        sqlType: SQLType.SQL_REAL,
+        buf: new Float32Array([param.value]),
+        colSize: 0n,
+        decimalDigits: 0, // ignored by SQLBindParameter for this data type
+        bufLen,
+        lenIndBuf: new BigInt64Array([bufLen]),
+      };
+    }
+
+    case "guid": {
+      const bufLen = GUID_SIZE;
+      const buf = new Uint8Array(bufLen);
+      writeGuid(buf, param.value);
+
+      return {
+        cType: CType.SQL_C_GUID,
+        sqlType: SQLType.SQL_GUID,
+        buf,
+        colSize: 0n, // ignored by SQLBindParameter for this data type
+        decimalDigits: 0,
+        bufLen: BigInt(bufLen),
+        lenIndBuf: new BigInt64Array([BigInt(bufLen)]),
+      };
+    }
+
+    case "decimal": {
+      const { precision = 18, scale = 0 } = param.options;
+      const bufLen = NUMERIC_STRUCT_SIZE;
+      const buf = new Uint8Array(bufLen);
+      writeNumeric(buf, param.value, precision, scale);
+
+      return {
+        cType: CType.SQL_C_NUMERIC,
+        sqlType: SQLType.SQL_NUMERIC,
+        buf,
+        colSize: BigInt(precision),
+        decimalDigits: scale,
+        bufLen: BigInt(bufLen),
+        lenIndBuf: new BigInt64Array([BigInt(bufLen)]),
+      };
+    }
+
+    case "xml": {
+      const buf = strToBuf(param.value);
+      return {
+        cType: CType.SQL_C_WCHAR,
+        sqlType: SQLType.SQL_SS_XML,
+        buf,
+        colSize: 0n, // unlimited
+        decimalDigits: 0,
+        bufLen: BigInt(buf.byteLength),
+        lenIndBuf: new BigInt64Array([BigInt(SQL_NTS)]),
+      };
+    }
+
+    case "geography":
+    case "geometry": {
+      const { value } = param;
+      const isGeography = param.type === "geography";
+      return getUdtBinding(
+        value instanceof Uint8Array ? new Uint8Array(value) : encodeSpatial(
+          value,
+          param.options.srid ?? (isGeography ? 4326 : 0),
+          isGeography,
+        ),
+      );
+    }
+    case "hierarchyid": {
+      const { value } = param;
+      return getUdtBinding(
+        value instanceof Uint8Array
+          ? new Uint8Array(value)
+          : encodeHierarchyId(value),
+      );
+    }
+  }
+
+  throw new Error(`Unsupported parameter type: ${typedParam.type}`);
+}
+
+/**
+ * Binds a serialized CLR type value as varbinary, which converts implicitly to
+ * the CLR types.
+ */
+function getUdtBinding(buf: Uint8Array<ArrayBuffer>): ParamBinding {
+  const bufLen = BigInt(buf.byteLength);
+
+  return {
+    cType: CType.SQL_C_BINARY,
+    sqlType: SQLType.SQL_VARBINARY,
+    buf: bufLen === 0n ? new Uint8Array(1) : buf, // the root hierarchyid is empty
+    colSize: bufLen > 8000n ? 0n : 8000n,
+    decimalDigits: 0,
+    bufLen,
+    lenIndBuf: new BigInt64Array([bufLen]),
+  };
+}
+
+/**
+ * Builds the binding of an `OUTPUT` or `INPUT_OUTPUT` procedure parameter. The
+ * buffer is sized by the declared type so it can hold the value returned by
+ * the procedure, and holds the input value (if any) when the call is made.
+ */
+function getProcedureParamBinding(
+  param: ProcedureParameter<ProcedureParameterType>,
+  dates: DateRepresentation,
+): ParamBinding {
+  const { type, isInput, value, options } = param;
+  const ioType = isInput ? SQL_PARAM_INPUT_OUTPUT : SQL_PARAM_OUTPUT;
+  const isNull = value === null || value === undefined;
+
+  const fixed = (
+    cType: CType,
+    sqlType: SQLType,
+    buf: ParamBinding["buf"],
+  ): ParamBinding => {
+    const bufLen = BigInt(buf.byteLength);
+    return {
+      ioType,
+      cType,
+      sqlType,
+      buf,
+      colSize: 0n,
+      decimalDigits: 0, // ignored by SQLBindParameter for these data types
+      bufLen,
+      lenIndBuf: new BigInt64Array([isNull ? BigInt(SQL_NULL_DATA) : bufLen]),
+    };
+  };
+
+  switch (type) {
+    case "bit":
+      return fixed(
+        CType.SQL_C_BIT,
+        SQLType.SQL_BIT,
+        new Uint8Array([value ? 1 : 0]),
+      );
+    case "tinyint":
+      return fixed(
+        CType.SQL_C_UTINYINT,
+        SQLType.SQL_TINYINT,
+        new Uint8Array([Number(value ?? 0)]),
+      );
+    case "smallint":
+      return fixed(
+        CType.SQL_C_SSHORT,
+        SQLType.SQL_SMALLINT,
+        new Int16Array([Number(value ?? 0)]),
+      );
+    case "int":
+      return fixed(
+        CType.SQL_C_SLONG,
+        SQLType.SQL_INTEGER,
+        new Int32Array([Number(value ?? 0)]),
+      );
+    case "bigint":
+      return fixed(
+        CType.SQL_C_SBIGINT,
+        SQLType.SQL_BIGINT,
+        new BigInt64Array([BigInt((value ?? 0) as number | bigint)]),
+      );
+    case "float":
+      return fixed(
+        CType.SQL_C_DOUBLE,
+        SQLType.SQL_FLOAT,
+        new Float64Array([Number(value ?? 0)]),
+      );
+    case "datetime2": {
+      const buf = new Uint8Array(16);
+      if (!isNull) writeTimestamp(buf, dateToTimestamp(value as Date, dates));
+      return {
+        ...fixed(CType.SQL_C_TYPE_TIMESTAMP, SQLType.SQL_TYPE_TIMESTAMP, buf),
+        colSize: 27n,
+        decimalDigits: 7,
+      };
+    }
+    case "decimal": {
+      const precision = options.precision ?? 18;
+      const scale = options.scale ?? 0;
+      // sign, decimal point and null terminator
+      return getWCharBinding(
+        ioType,
+        SQLType.SQL_DECIMAL,
+        precision + 3,
+        isNull ? null : String(value),
+        BigInt(precision),
+        scale,
+      );
+    }
+    case "nvarchar": {
+      const length = getProcedureParamLength(options, 4000);
+      return getWCharBinding(
+        ioType,
+        SQLType.SQL_WVARCHAR,
+        length + 1,
+        isNull ? null : value as string,
+        BigInt(length),
+        0,
+      );
+    }
+    case "varbinary": {
+      const length = getProcedureParamLength(options, 8000);
+      const buf = new Uint8Array(length);
+      let byteLen = SQL_NULL_DATA;
+      if (!isNull) {
+        const input = value as Uint8Array;
+        if (input.byteLength > length) {
+          throw new Error(
+            `Value of ${input.byteLength} bytes exceeds the declared length of ${length}`,
+          );
+        }
+        buf.set(input);
+        byteLen = input.byteLength;
+      }
+      return {
+        ioType,
+        cType: CType.SQL_C_BINARY,
+        sqlType: SQLType.SQL_VARBINARY,
+        buf,
+        colSize: BigInt(length),
+        decimalDigits: 0,
+        bufLen: BigInt(length),
+        lenIndBuf: new BigInt64Array([BigInt(byteLen)]),
+      };
+    }
+    default:
+      throw new Error(`Unsupported procedure parameter type: ${type}`);
+  }
+}
+
+function getWCharBinding(
+  ioType: number,
+  sqlType: SQLType,
+  bufChars: number,
+  value: string | null,
+  colSize: bigint,
+  decimalDigits: number,
+): ParamBinding {
+  const buf = new Uint16Array(bufChars);
+  if (value !== null) {
+    if (value.length >= bufChars) {
+      throw new Error(
+        `Value "${value}" exceeds the declared length of ${bufChars - 1}`,
+      );
+    }
+    for (let i = 0; i < value.length; i++) {
+      buf[i] = value.charCodeAt(i);
+    }
+  }
+
+  return {
+    ioType,
+    cType: CType.SQL_C_WCHAR,
+    sqlType,
+    buf,
+    colSize,
+    decimalDigits,
+    bufLen: BigInt(buf.byteLength),
+    lenIndBuf: new BigInt64Array([
+      BigInt(value === null ? SQL_NULL_DATA : value.length * 2),
+    ]),
+  };
+}
+
+function getProcedureParamLength(
+  options: ProcedureParameter<ProcedureParameterType>["options"],
+  max: number,
+): number {
+  const length = options.length ?? max;
+  if (!Number.isInteger(length) || length < 1 || length > max) {
+    throw new Error(`length must be an integer between 1 and ${max}`);
+  }
+  return length;
+}
+
+/**
+ * Decodes the value the driver wrote into an output parameter buffer. Values
+ * that did not fit into the buffer are rejected instead of being cut off.
+ */
+function readOutputParam(
+  binding: ParamBinding,
+  dates: DateRepresentation,
+  name: string,
+): unknown {
+  const { cType, buf, bufLen, lenIndBuf } = binding;
+  const byteLen = Number(lenIndBuf[0]);
+
+  if (byteLen === SQL_NULL_DATA) return null;
+
+  // The character buffer also holds the null terminator.
+  const capacity = cType === CType.SQL_C_WCHAR
+    ? Number(bufLen) - 2
+    : Number(bufLen);
+  const isVariable = cType === CType.SQL_C_WCHAR ||
+    cType === CType.SQL_C_BINARY;
+  if (isVariable && (byteLen === SQL_NO_TOTAL || byteLen > capacity)) {
+    throw new Error(
+      `Output parameter "${name}" exceeds its declared length of ${binding.colSize}`,
+    );
+  }
+
+  switch (cType) {
+    case CType.SQL_C_SLONG:
+    case CType.SQL_C_SBIGINT:
+    case CType.SQL_C_DOUBLE:
+    case CType.SQL_C_UTINYINT:
+    case CType.SQL_C_SSHORT:
+      return buf[0];
+    case CType.SQL_C_BIT:
+      return buf[0] === 1;
+    case CType.SQL_C_TYPE_TIMESTAMP:
+      return formatTimestamp(readTimestamp(buf), dates, false);
+    case CType.SQL_C_BINARY:
+      return (buf as Uint8Array).slice(0, byteLen);
+    case CType.SQL_C_WCHAR:
+      return bufToStr(buf as Uint16Array, byteLen / 2);
+    default:
+      throw new Error(`Unknown binding C-Type: ${cType}`);
+  }
+}
+
+function createAbortError(): DOMException {
+  return new DOMException("The query was aborted", "AbortError");
 }
@@ -0,0 +1,66 @@
+import { OdbcError } from "./errors.ts";
+
+export interface RetryOptions {
+  /**
+   * Maximum number of attempts, including the first one. Defaults to `3`.
+   */
+  maxAttempts?: number;
+  /**
+   * Returns the number of milliseconds to wait before the given retry (`1` for
+   * the first retry). Defaults to an exponential backoff starting at 100ms,
+   * capped at 5s, with random jitter so that deadlock victims do not collide
+   * again.
+   */
+  backoff?: (retry: number) => number;
+  /**
+   * SQL Server error numbers that are retried. Defaults to deadlocks (1205)
+   * and the transient Azure SQL errors 40501, 40613 and 49918.
+   */
+  nativeErrors?: readonly number[];
+}
+
+export const DEFAULT_RETRY_NATIVE_ERRORS: readonly number[] = [
+  1205,
+  40501,
+  40613,
+  49918,
+];
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const BACKOFF_BASE_MS = 100;
+const BACKOFF_MAX_MS = 5000;
+
+/**
+ * Runs `fn` until it succeeds, it fails with an error that is not retryable or
+ * `maxAttempts` is reached. Only {@link OdbcError}s carrying one of the
+ * configured native error numbers are retried.
+ */
+export async function withRetry<T>(
+  fn: (attempt: number) => Promise<T>,
+  options: RetryOptions = {},
+): Promise<T> {
+  const maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  if (!Number.isInteger(maxAttempts) || maxAttempts <= 0) {
+    throw new Error("maxAttempts must be a positive integer");
+  }
+
+  const nativeErrors = options.nativeErrors ?? DEFAULT_RETRY_NATIVE_ERRORS;
+  const backoff = options.backoff ?? defaultBackoff;
+
+  for (let attempt = 1;; attempt++) {
+    try {
+      return await fn(attempt);
+    } catch (error) {
+      const isRetryable = error instanceof OdbcError &&
+        error.hasNativeError(...nativeErrors);
+      if (!isRetryable || attempt >= maxAttempts) throw error;
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, backoff(attempt)));
+  }
+}
+
+function defaultBackoff(retry: number): number {
+  const delay = Math.min(BACKOFF_BASE_MS * 2 ** (retry - 1), BACKOFF_MAX_MS);
+  return delay / 2 + Math.random() * delay / 2;
+}
@@ -1,6 +1,34 @@
 import { type Generated, Kysely, sql } from "@kysely/kysely";
 import { assertEquals, assertInstanceOf, assertRejects } from "@std/assert";
-import { MssqlOdbcDialect } from "./dialect.ts";
+import {
+  bulkLoad,
+  callProcedure,
+  datetimeoffset,
+  decimal,
+  type DiagRecord,
+  executeBulk,
+  executeMulti,
+  geography,
+  geometry,
+  guid,
+  hierarchyid,
+  inputOutput,
+  isForeignKeyViolation,
+  isTimeout,
+  isUniqueViolation,
+  MssqlOdbcDialect,
+  type OdbcDialectConfig,
+  OdbcError,
+  type OdbcQueryResult,
+  output,
+  QueryOptionsPlugin,
+  QueryTimeoutError,
+  real,
+  retryTransaction,
+  streamMulti,
+  time,
+  xml,
+} from "./dialect.ts";
 
 // ➤ INTERFACES & CONFIGURATION
 
@@ -41,35 +69,54 @@ const INPUT_SMALLINT = 32000;
 const INPUT_TINYINT = 255;
 const INPUT_DECIMAL = "9999.99";
 
+const DIALECT_CONFIG: OdbcDialectConfig = {
+  tarn: {
+    options: {
+      min: 0,
+      max: MAX_POOL_SIZE,
+      propagateCreateError: true,
+    },
+  },
+  odbc: {
+    libPath: Deno.env.get("MSODBC_LIB")!,
+    connectionString: [
+      "driver={ODBC Driver 18 for SQL Server}",
+      "server=127.0.0.1",
+      "uid=sa",
+      "pwd=Test1234$",
+      "encrypt=yes",
+      "trustServerCertificate=yes",
+    ].join(";"),
+  },
+};
+
 let db: Kysely<Database>;
 
+/**
+ * Runs `fn` with a separate Kysely instance whose config overrides
+ * `DIALECT_CONFIG`, and destroys the instance afterwards.
+ */
+async function withDialect<T>(
+  overrides: Partial<OdbcDialectConfig>,
+  fn: (db: Kysely<Database>) => Promise<T>,
+): Promise<T> {
+  const overriddenDb = new Kysely<Database>({
+    dialect: new MssqlOdbcDialect({ ...DIALECT_CONFIG, ...overrides }),
+  });
+
+  try {
+    return await fn(overriddenDb);
+  } finally {
+    await overriddenDb.destroy();
+  }
+}
+
 // ➤ SETUP & TEARDOWN
 
 Deno.test.beforeAll(async () => {
   console.log("Setting up test database...");
 
-  db = new Kysely<Database>({
-    dialect: new MssqlOdbcDialect({
-      tarn: {
-        options: {
-          min: 0,
-          max: MAX_POOL_SIZE,
-          propagateCreateError: true,
-        },
-      },
-      odbc: {
-        libPath: Deno.env.get("MSODBC_LIB")!,
-        connectionString: [
-          "driver={ODBC Driver 18 for SQL Server}",
-          "server=127.0.0.1",
-          "uid=sa",
-          "pwd=Test1234$",
-          "encrypt=yes",
-          "trustServerCertificate=yes",
-        ].join(";"),
-      },
-    }),
-  });
+  db = new Kysely<Database>({ dialect: new MssqlOdbcDialect(DIALECT_CONFIG) });
 
   await db.schema.dropTable(TABLE_NAME).ifExists().execute();
 
@@ -477,4 +524,1441 @@ Deno.test("➤ LARGE DATA (Truncation Handling)", async (t) => {
 
     assertEquals(row.long_bin, longBinary);
   });
+
+  /**
+   * Verifies that a trailing LOB column is returned as a stream pulling the whole value.
+   */
+  await t.step("stream LOB columns", async () => {
+    const lobDb = db.withPlugin(new QueryOptionsPlugin({ lobStreams: true }));
+
+    for await (
+      const row of lobDb.selectFrom(TABLE_NAME).select("long_bin").stream()
+    ) {
+      const stream = row.long_bin as unknown as ReadableStream<Uint8Array>;
+      assertInstanceOf(stream, ReadableStream);
+      assertEquals(await new Response(stream).bytes(), longBinary);
+    }
+
+    for await (
+      const row of lobDb.selectFrom(TABLE_NAME).select("long_str").stream()
+    ) {
+      const stream = row.long_str as unknown as ReadableStream<string>;
+      assertEquals(
+        await Array.fromAsync(stream).then((c) => c.join("")),
+        longString,
+      );
+    }
+
+    await assertRejects(
+      () => lobDb.selectFrom(TABLE_NAME).select("long_bin").execute(),
+      Error,
+      "lobStreams",
+    );
+  });
+
+  /**
+   * Verifies that streams, blobs and files are sent with SQLPutData.
+   */
+  await t.step("stream parameters", async () => {
+    const tempFile = await Deno.makeTempFile();
+    await Deno.writeFile(tempFile, longBinary);
+
+    try {
+      using file = await Deno.open(tempFile);
+      const params = [
+        new Blob([longBinary]).stream(),
+        new Blob([longBinary]),
+        file,
+        new Blob([]),
+      ];
+
+      for (const param of params) {
+        await db.deleteFrom(TABLE_NAME).execute();
+        await sql`INSERT INTO test_table (long_bin) VALUES (${param})`
+          .execute(db);
+
+        const row = await db.selectFrom(TABLE_NAME)
+          .select("long_bin")
+          .executeTakeFirstOrThrow();
+
+        assertEquals(
+          row.long_bin,
+          param instanceof Blob && param.size === 0
+            ? new Uint8Array()
+            : longBinary,
+        );
+      }
+    } finally {
+      await Deno.remove(tempFile);
+    }
+  });
+});
+
+Deno.test("➤ PREPARED STATEMENT CACHE", async (t) => {
+  await db.deleteFrom(TABLE_NAME).execute();
+  await db.insertInto(TABLE_NAME)
+    .values(
+      [1, 2, 3].map((col_int) => ({ col_int, col_string: `#${col_int}` })),
+    )
+    .execute();
+
+  await withDialect({ statementCacheSize: 2 }, async (cachedDb) => {
+    /**
+     * Verifies that re-executing a cached statement rebinds its parameters.
+     */
+    await t.step("re-execution with different parameters", async () => {
+      for (const col_int of [1, 2, 3, 1]) {
+        const row = await cachedDb.selectFrom(TABLE_NAME)
+          .select(["col_int", "col_string"])
+          .where("col_int", "=", col_int)
+          .executeTakeFirstOrThrow();
+
+        assertEquals(row, { col_int, col_string: `#${col_int}` });
+      }
+    });
+
+    /**
+     * Verifies that statements evicted from the cache are replaced transparently.
+     */
+    await t.step("eviction", async () => {
+      for (let i = 0; i < 3; i++) {
+        for (const column of ["col_int", "col_string", "id"] as const) {
+          const rows = await cachedDb.selectFrom(TABLE_NAME)
+            .select(column)
+            .execute();
+
+          assertEquals(rows.length, 3);
+        }
+      }
+    });
+
+    /**
+     * Verifies that a failed execution does not poison the cached statement.
+     */
+    await t.step("recovery after a failed execution", async () => {
+      const query = (value: number) =>
+        sql<{ result: number }>`SELECT 10 / ${value} AS result`
+          .execute(cachedDb);
+
+      await assertRejects(() => query(0), Error, "Divide by zero");
+
+      const { rows } = await query(5);
+      assertEquals(rows[0].result, 2);
+    });
+  });
+});
+
+Deno.test("➤ QUERY TIMEOUT", async (t) => {
+  /**
+   * Verifies that a statement exceeding its timeout is cancelled and that the connection remains usable.
+   */
+  await t.step("per-query timeout", async () => {
+    await db.connection().execute(async (conn) => {
+      await assertRejects(
+        () =>
+          sql`WAITFOR DELAY '00:00:05'`
+            .withPlugin(new QueryOptionsPlugin({ queryTimeout: 1 }))
+            .execute(conn),
+        QueryTimeoutError,
+      );
+
+      const { rows } = await sql<{ one: number }>`SELECT 1 AS one`
+        .execute(conn);
+      assertEquals(rows[0].one, 1);
+    });
+  });
+
+  /**
+   * Verifies that the per-query option overrides the timeout from the dialect config.
+   */
+  await t.step("override of the default timeout", async () => {
+    await withDialect({ queryTimeout: 1 }, async (timeoutDb) => {
+      await assertRejects(
+        () => sql`WAITFOR DELAY '00:00:02'`.execute(timeoutDb),
+        QueryTimeoutError,
+      );
+
+      await sql`WAITFOR DELAY '00:00:02'`
+        .withPlugin(new QueryOptionsPlugin({ queryTimeout: 0 }))
+        .execute(timeoutDb);
+    });
+  });
+});
+
+Deno.test("➤ ERRORS", async (t) => {
+  /**
+   * Verifies that failures carry their diagnostic records, function and SQL.
+   */
+  await t.step("diagnostic records", async () => {
+    const error = await assertRejects(
+      () => sql`SELECT * FROM missing_table`.execute(db),
+      OdbcError,
+    );
+
+    assertEquals(error.functionName, "SQLExecDirectW");
+    assertEquals(error.sqlState, "42S02");
+    assertEquals(error.nativeError, 208);
+    assertEquals(error.sql, "SELECT * FROM missing_table");
+  });
+
+  /**
+   * Verifies the predicates for unique and foreign key violations.
+   */
+  await t.step("constraint violations", async () => {
+    await db.connection().execute(async (conn) => {
+      await sql`
+        CREATE TABLE #parent (id int PRIMARY KEY);
+        CREATE TABLE #child (parent_id int REFERENCES #parent (id));
+        INSERT INTO #parent VALUES (1);
+      `.execute(conn);
+
+      const unique = await assertRejects(
+        () => sql`INSERT INTO #parent VALUES (1)`.execute(conn),
+        OdbcError,
+      );
+      assertEquals(isUniqueViolation(unique), true);
+      assertEquals(isForeignKeyViolation(unique), false);
+
+      const foreignKey = await assertRejects(
+        () => sql`INSERT INTO #child VALUES (2)`.execute(conn),
+        OdbcError,
+      );
+      assertEquals(isForeignKeyViolation(foreignKey), true);
+      assertEquals(isUniqueViolation(foreignKey), false);
+    });
+  });
+
+  /**
+   * Verifies that a query timeout is an OdbcError matched by isTimeout.
+   */
+  await t.step("timeout", async () => {
+    const error = await assertRejects(
+      () =>
+        sql`WAITFOR DELAY '00:00:05'`
+          .withPlugin(new QueryOptionsPlugin({ queryTimeout: 1 }))
+          .execute(db),
+      QueryTimeoutError,
+    );
+
+    assertInstanceOf(error, OdbcError);
+    assertEquals(isTimeout(error), true);
+    assertEquals(isTimeout(new Error("timeout")), false);
+  });
+
+  /**
+   * Verifies that long server messages are not truncated.
+   */
+  await t.step("long message", async () => {
+    const text = "x".repeat(2000);
+    const error = await assertRejects(
+      () => sql`THROW 50001, ${text}, 1`.execute(db),
+      OdbcError,
+    );
+
+    assertEquals(error.nativeError, 50001);
+    assertEquals(error.records[0].message.endsWith(text), true);
+  });
+});
+
+Deno.test("➤ RETRYING TRANSACTIONS", async (t) => {
+  /**
+   * Verifies that the deadlock victim is rerun and both transactions commit.
+   */
+  await t.step("deadlock", async () => {
+    await db.deleteFrom(TABLE_NAME).execute();
+    const [{ id: first }, { id: second }] = await db.insertInto(TABLE_NAME)
+      .values([{ col_int: 0 }, { col_int: 0 }])
+      .output("inserted.id")
+      .execute();
+
+    let attempts = 0;
+    const update = (a: number, b: number) =>
+      retryTransaction(db, async (trx) => {
+        attempts++;
+        for (const id of [a, b]) {
+          await trx.updateTable(TABLE_NAME)
+            .set((eb) => ({ col_int: eb("col_int", "+", 1) }))
+            .where("id", "=", id)
+            .execute();
+          await sql`WAITFOR DELAY '00:00:00.500'`.execute(trx);
+        }
+      }, { backoff: () => 0 });
+
+    await Promise.all([update(first, second), update(second, first)]);
+
+    assertEquals(attempts, 3);
+    const rows = await db.selectFrom(TABLE_NAME).select("col_int").execute();
+    assertEquals(rows.map((row) => row.col_int), [2, 2]);
+  });
+
+  /**
+   * Verifies that only configured errors are retried, up to maxAttempts.
+   */
+  await t.step("retry policy", async () => {
+    let attempts = 0;
+    await assertRejects(
+      () =>
+        retryTransaction(db, async (trx) => {
+          attempts++;
+          await sql`THROW 50001, 'transient', 1`.execute(trx);
+        }, { nativeErrors: [50001], maxAttempts: 2, backoff: () => 0 }),
+      OdbcError,
+      "transient",
+    );
+    assertEquals(attempts, 2);
+
+    attempts = 0;
+    await assertRejects(
+      () =>
+        retryTransaction(db, async (trx) => {
+          attempts++;
+          await sql`THROW 50002, 'permanent', 1`.execute(trx);
+        }),
+      OdbcError,
+      "permanent",
+    );
+    assertEquals(attempts, 1);
+  });
+});
+
+Deno.test("➤ CANCELLATION", async (t) => {
+  /**
+   * Verifies that aborting the signal cancels a running statement and that the connection remains usable.
+   */
+  await t.step("abort running query", async () => {
+    await db.connection().execute(async (conn) => {
+      const controller = new AbortController();
+      const start = performance.now();
+      setTimeout(() => controller.abort(), SLEEP_MS);
+
+      const error = await assertRejects(() =>
+        sql`WAITFOR DELAY '00:00:10'`
+          .withPlugin(new QueryOptionsPlugin({ signal: controller.signal }))
+          .execute(conn)
+      );
+
+      assertInstanceOf(error, DOMException);
+      assertEquals(error.name, "AbortError");
+      assertEquals(performance.now() - start < 5000, true);
+
+      const { rows } = await sql<{ one: number }>`SELECT 1 AS one`
+        .execute(conn);
+      assertEquals(rows[0].one, 1);
+    });
+  });
+
+  /**
+   * Verifies that aborting between two chunks of a stream stops it and that the connection remains usable.
+   */
+  await t.step("abort between stream chunks", async () => {
+    await db.connection().execute(async (conn) => {
+      const controller = new AbortController();
+      const query = sql`SELECT n FROM (VALUES (1), (2), (3), (4)) AS t(n)`
+        .withPlugin(new QueryOptionsPlugin({ signal: controller.signal }))
+        .compile(conn);
+      const chunks = conn.getExecutor().stream(query, 2);
+
+      const first = await chunks.next();
+      assertEquals(first.value?.rows, [{ n: 1 }, { n: 2 }]);
+
+      controller.abort();
+      const error = await assertRejects(() => chunks.next());
+
+      assertInstanceOf(error, DOMException);
+      assertEquals(error.name, "AbortError");
+
+      const { rows } = await sql<{ one: number }>`SELECT 1 AS one`
+        .execute(conn);
+      assertEquals(rows[0].one, 1);
+    });
+  });
+
+  /**
+   * Verifies that an already aborted signal prevents the query from running.
+   */
+  await t.step("already aborted signal", async () => {
+    const error = await assertRejects(() =>
+      db.withPlugin(new QueryOptionsPlugin({ signal: AbortSignal.abort() }))
+        .selectFrom(TABLE_NAME)
+        .selectAll()
+        .execute()
+    );
+
+    assertInstanceOf(error, DOMException);
+    assertEquals(error.name, "AbortError");
+  });
+});
+
+Deno.test("➤ MULTIPLE RESULT SETS", async (t) => {
+  const batch = sql`
+    SELECT 1 AS header_id, ${"header"} AS title;
+    SELECT n AS detail_id FROM (VALUES (1), (2), (3)) AS details(n);
+  `.compile(db);
+
+  /**
+   * Verifies that every result set of a batch is returned with its own rows and columns.
+   */
+  await t.step("executeMulti", async () => {
+    const resultSets = await executeMulti(db, batch);
+
+    assertEquals(resultSets.length, 2);
+    assertEquals(resultSets[0].rows, [{ header_id: 1, title: "header" }]);
+    assertEquals(resultSets[0].columns.map((c) => c.name), [
+      "header_id",
+      "title",
+    ]);
+    assertEquals(resultSets[1].rows, [
+      { detail_id: 1 },
+      { detail_id: 2 },
+      { detail_id: 3 },
+    ]);
+  });
+
+  /**
+   * Verifies that the affected-row count of each statement is reported.
+   */
+  await t.step("affected rows", async () => {
+    await db.deleteFrom(TABLE_NAME).execute();
+
+    const resultSets = await executeMulti(
+      db,
+      sql`
+        INSERT INTO test_table (col_int) VALUES (1), (2);
+        SELECT col_int FROM test_table ORDER BY col_int;
+      `.compile(db),
+    );
+
+    assertEquals(resultSets[0].numAffectedRows, 2n);
+    assertEquals(resultSets[0].rows, []);
+    assertEquals(resultSets[1].rows, [{ col_int: 1 }, { col_int: 2 }]);
+  });
+
+  /**
+   * Verifies that result sets are streamed in order and in chunks.
+   */
+  await t.step("streamMulti", async () => {
+    const chunks = [];
+    for await (const chunk of streamMulti(db, batch, 2)) {
+      chunks.push({ index: chunk.resultSetIndex, count: chunk.rows.length });
+    }
+
+    assertEquals(chunks, [
+      { index: 0, count: 1 },
+      { index: 1, count: 2 },
+      { index: 1, count: 1 },
+    ]);
+  });
+});
+
+Deno.test("➤ STORED PROCEDURES", async (t) => {
+  await sql`
+    CREATE OR ALTER PROCEDURE dbo.test_procedure
+      @value INT,
+      @doubled INT OUTPUT,
+      @greeting NVARCHAR(50) OUTPUT
+    AS
+    BEGIN
+      SET NOCOUNT ON;
+      SELECT @value AS value;
+      SET @doubled = @value * 2;
+      SET @greeting = N'Hello ' + @greeting;
+      RETURN 7;
+    END
+  `.execute(db);
+
+  try {
+    /**
+     * Verifies that the return value, OUTPUT and INPUT_OUTPUT parameters and result sets are returned.
+     */
+    await t.step("callProcedure", async () => {
+      const { returnValue, outputs, resultSets } = await callProcedure(
+        db,
+        "dbo.test_procedure",
+        {
+          value: 21,
+          doubled: output("int"),
+          greeting: inputOutput("nvarchar", "🦕", { length: 50 }),
+        },
+      );
+
+      assertEquals(returnValue, 7);
+      assertEquals(outputs, { doubled: 42, greeting: "Hello 🦕" });
+      assertEquals(resultSets.length, 1);
+      assertEquals(resultSets[0].rows, [{ value: 21 }]);
+    });
+
+    /**
+     * Verifies that an output longer than its declared length is rejected instead of being cut off.
+     */
+    await t.step("truncated output", async () => {
+      await assertRejects(
+        () =>
+          callProcedure(db, "dbo.test_procedure", {
+            value: 21,
+            doubled: output("int"),
+            greeting: inputOutput("nvarchar", "🦕", { length: 5 }),
+          }),
+        Error,
+        'Output parameter "greeting" exceeds its declared length of 5',
+      );
+    });
+
+    /**
+     * Verifies that procedure names are validated before being embedded in SQL.
+     */
+    await t.step("invalid procedure name", async () => {
+      await assertRejects(
+        () => callProcedure(db, "dbo.test_procedure; DROP TABLE x", {}),
+        Error,
+        "Invalid procedure name",
+      );
+    });
+  } finally {
+    await sql`DROP PROCEDURE IF EXISTS dbo.test_procedure`.execute(db);
+  }
+});
+
+Deno.test("➤ BULK EXECUTION", async (t) => {
+  await db.deleteFrom(TABLE_NAME).execute();
+
+  /**
+   * Verifies that thousands of parameter sets are inserted in one call, with mixed types and NULLs.
+   */
+  await t.step("insert parameter arrays", async () => {
+    const parameterSets = Array.from({ length: 5000 }, (_, i) => [
+      i,
+      i % 2 === 0 ? 9007199254740991n : i,
+      i % 3 === 0 ? null : `row ${i}`,
+      INPUT_DATE,
+    ]);
+
+    const { numAffectedRows, rowStatus, errors } = await executeBulk(
+      db,
+      "INSERT INTO test_table (col_int, col_bigint, col_string, col_date) VALUES (?, ?, ?, ?)",
+      parameterSets,
+    );
+
+    assertEquals(numAffectedRows, 5000n);
+    assertEquals(errors, []);
+    assertEquals(rowStatus.every((status) => status === "success"), true);
+
+    const row = await db.selectFrom(TABLE_NAME)
+      .select(["col_bigint", "col_string", "col_date"])
+      .where("col_int", "=", 4)
+      .executeTakeFirstOrThrow();
+
+    assertEquals(row.col_bigint, 9007199254740991n);
+    assertEquals(row.col_string, "row 4");
+    assertEquals(row.col_date?.getTime(), INPUT_DATE.getTime());
+  });
+
+  /**
+   * Verifies that a failing parameter set is reported without aborting the others.
+   */
+  await t.step("per-row status", async () => {
+    const { rowStatus, errors } = await executeBulk(
+      db,
+      "INSERT INTO test_table (col_tinyint) VALUES (?)",
+      [[1], [1000], [2]],
+    );
+
+    assertEquals(rowStatus[0], "success");
+    assertEquals(rowStatus[1], "error");
+    assertEquals(rowStatus[2], "success");
+    assertEquals(errors.length, 1);
+  });
+
+  /**
+   * Verifies that integers mixed with fractional numbers are widened to float, unless that loses precision.
+   */
+  await t.step("mixed numbers", async () => {
+    await db.deleteFrom(TABLE_NAME).execute();
+    const { numAffectedRows } = await executeBulk(
+      db,
+      "INSERT INTO test_table (col_float) VALUES (?)",
+      [[1], [2n ** 40n], [1.5]],
+    );
+    assertEquals(numAffectedRows, 3n);
+
+    const rows = await db.selectFrom(TABLE_NAME).select("col_float")
+      .orderBy("col_float").execute();
+    assertEquals(rows.map((row) => row.col_float), [1, 1.5, 2 ** 40]);
+
+    await assertRejects(
+      () =>
+        executeBulk(db, "INSERT INTO test_table (col_float) VALUES (?)", [
+          [2n ** 60n + 1n],
+          [1.5],
+        ]),
+      Error,
+      "cannot be widened to float",
+    );
+  });
+});
+
+Deno.test("➤ BULK COPY", async (t) => {
+  await db.deleteFrom(TABLE_NAME).execute();
+
+  /**
+   * Verifies that rows from an async iterable are copied across several batches, including NULLs.
+   */
+  await t.step("load rows in batches", async () => {
+    async function* generateRows() {
+      for (let i = 0; i < 2500; i++) {
+        yield {
+          col_int: i,
+          col_bigint: INPUT_BIGINT,
+          col_bit: i % 2 === 0,
+          col_string: i % 3 === 0 ? null : `row ${i}`,
+          col_date: INPUT_DATE,
+          col_binary: INPUT_BINARY,
+        };
+      }
+    }
+
+    const rowCount = await bulkLoad(
+      db,
+      TABLE_NAME,
+      [
+        "col_int",
+        "col_bigint",
+        "col_bit",
+        "col_string",
+        "col_date",
+        "col_binary",
+      ],
+      generateRows(),
+      { batchSize: 1000 },
+    );
+
+    assertEquals(rowCount, 2500);
+
+    const row = await db.selectFrom(TABLE_NAME)
+      .select(["col_bigint", "col_bit", "col_string", "col_date", "col_binary"])
+      .where("col_int", "=", 4)
+      .executeTakeFirstOrThrow();
+
+    assertEquals(row.col_bigint, INPUT_BIGINT);
+    assertEquals(row.col_bit, true);
+    assertEquals(row.col_string, "row 4");
+    assertEquals(row.col_date?.getTime(), INPUT_DATE.getTime());
+    assertEquals(row.col_binary, INPUT_BINARY);
+
+    const nullRow = await db.selectFrom(TABLE_NAME)
+      .select("col_string")
+      .where("col_int", "=", 3)
+      .executeTakeFirstOrThrow();
+
+    assertEquals(nullRow.col_string, null);
+  });
+
+  /**
+   * Verifies that dates are copied like Date and Temporal parameters.
+   */
+  await t.step("dates", async () => {
+    await db.deleteFrom(TABLE_NAME).execute();
+
+    await withDialect({ dates: "local" }, async (localDb) => {
+      await bulkLoad(localDb, TABLE_NAME, ["col_int", "col_date"], [
+        { col_int: 1, col_date: new Date(2024, 4, 1, 8, 30) },
+        {
+          col_int: 2,
+          col_date: Temporal.PlainDateTime.from(
+            "2024-05-01T08:30:15.123456789",
+          ),
+        },
+      ]);
+    });
+
+    await withDialect({ dates: "string" }, async (stringDb) => {
+      const rows = await stringDb.selectFrom(TABLE_NAME).select("col_date")
+        .orderBy("col_int").execute();
+      assertEquals(rows.map((row) => row.col_date as unknown), [
+        "2024-05-01T08:30:00.0000000",
+        "2024-05-01T08:30:15.1234567",
+      ]);
+    });
+  });
+
+  /**
+   * Verifies that a bigint in a column bound as float is rejected when it would lose precision.
+   */
+  await t.step("mixed numbers", async () => {
+    await assertRejects(
+      () =>
+        bulkLoad(db, TABLE_NAME, ["col_bigint"], [
+          { col_bigint: 1 },
+          { col_bigint: 2n ** 60n + 1n },
+        ]),
+      Error,
+      "cannot be widened to float",
+    );
+  });
+
+  /**
+   * Verifies that unknown columns are rejected before any row is sent.
+   */
+  await t.step("unknown column", async () => {
+    await assertRejects(
+      () => bulkLoad(db, TABLE_NAME, ["no_such_column"], [{}]),
+      Error,
+      "does not exist",
+    );
+  });
+});
+
+Deno.test("➤ BLOCK FETCHING", async (t) => {
+  await db.deleteFrom(TABLE_NAME).execute();
+  await executeBulk(
+    db,
+    "INSERT INTO test_table (col_int, col_string, col_date, col_binary, col_decimal) VALUES (?, ?, ?, ?, ?)",
+    Array.from({ length: 100 }, (_, i) => [
+      i,
+      i % 5 === 0 ? null : `row ${i}`,
+      INPUT_DATE,
+      INPUT_BINARY,
+      INPUT_DECIMAL,
+    ]),
+  );
+
+  await withDialect({ rowsetSize: 7 }, async (blockDb) => {
+    /**
+     * Verifies that every row of partial and full rowsets is read, including NULLs.
+     */
+    await t.step("rows across rowsets", async () => {
+      const rows = await blockDb.selectFrom(TABLE_NAME)
+        .select(["col_int", "col_string", "col_date", "col_decimal"])
+        .orderBy("col_int")
+        .execute();
+
+      assertEquals(rows.length, 100);
+      rows.forEach((row, i) => {
+        assertEquals(row.col_int, i);
+        assertEquals(row.col_string, i % 5 === 0 ? null : `row ${i}`);
+        assertEquals(row.col_date?.getTime(), INPUT_DATE.getTime());
+        assertEquals(row.col_decimal, INPUT_DECIMAL);
+      });
+    });
+
+    /**
+     * Verifies that streaming returns every row when the chunk size differs from the rowset size.
+     */
+    await t.step("stream chunks", async () => {
+      for (const chunkSize of [3, 10]) {
+        const ids: number[] = [];
+        for await (
+          const row of blockDb.selectFrom(TABLE_NAME)
+            .select("col_int")
+            .stream(chunkSize)
+        ) {
+          ids.push(row.col_int!);
+        }
+        assertEquals(ids.length, 100);
+      }
+    });
+
+    /**
+     * Verifies that results with LOB columns fall back to single-row fetching.
+     */
+    await t.step("LOB fallback", async () => {
+      const rows = await blockDb.selectFrom(TABLE_NAME)
+        .select(["col_int", "col_binary"])
+        .orderBy("col_int")
+        .execute();
+
+      assertEquals(rows.length, 100);
+      assertEquals(rows[99], { col_int: 99, col_binary: INPUT_BINARY });
+    });
+  });
+});
+
+Deno.test("➤ DUPLICATE COLUMNS", async (t) => {
+  const query = sql`SELECT 1 AS id, 2 AS id, 3, 4 AS id_2`;
+
+  /**
+   * Verifies that repeated names are suffixed and unnamed columns named by position.
+   */
+  await t.step("suffix (default)", async () => {
+    const { rows } = await query.execute(db);
+    assertEquals(rows, [{ id: 1, id_2: 2, column_3: 3, id_2_2: 4 }]);
+  });
+
+  /**
+   * Verifies that the error policy rejects results with repeated names.
+   */
+  await t.step("error", async () => {
+    await withDialect({ duplicateColumns: "error" }, async (errorDb) => {
+      await assertRejects(
+        () => query.execute(errorDb),
+        Error,
+        'Duplicate column name "id"',
+      );
+
+      const { rows } = await sql`SELECT 1 AS a, 2`.execute(errorDb);
+      assertEquals(rows, [{ a: 1, column_2: 2 }]);
+    });
+  });
+
+  /**
+   * Verifies that the array policy returns every value in column order.
+   */
+  await t.step("array", async () => {
+    await withDialect({ duplicateColumns: "array" }, async (arrayDb) => {
+      const { rows } = await query.execute(arrayDb);
+      assertEquals(rows, [[1, 2, 3, 4]]);
+    });
+  });
+});
+
+Deno.test("➤ COLUMN METADATA", async (t) => {
+  const metadataDb = db.withPlugin(
+    new QueryOptionsPlugin({ columnMetadata: true }),
+  );
+
+  /**
+   * Verifies that columns are reported for a result without rows.
+   */
+  await t.step("execute without rows", async () => {
+    const { rows, columns } = await sql`
+      SELECT col_int, col_string AS renamed FROM test_table WHERE 1 = 0
+    `.execute(metadataDb) as OdbcQueryResult<unknown>;
+
+    assertEquals(rows, []);
+    assertEquals(columns?.map((c) => [c.name, c.typeName, c.isNullable]), [
+      ["col_int", "int", true],
+      ["renamed", "nvarchar", true],
+    ]);
+    assertEquals(columns?.[1].size, 255);
+  });
+
+  /**
+   * Verifies that only the first streamed chunk carries the columns.
+   */
+  await t.step("stream", async () => {
+    await db.deleteFrom(TABLE_NAME).execute();
+    await db.insertInto(TABLE_NAME)
+      .values([{ col_int: 1 }, { col_int: 2 }, { col_int: 3 }])
+      .execute();
+
+    const chunks: OdbcQueryResult<unknown>[] = [];
+    for await (
+      const chunk of metadataDb.getExecutor().stream(
+        metadataDb.selectFrom(TABLE_NAME).select("col_int").compile(),
+        2,
+      )
+    ) {
+      chunks.push(chunk);
+    }
+
+    assertEquals(chunks.length, 2);
+    assertEquals(chunks[0].columns?.[0].typeName, "int");
+    assertEquals(chunks[1].columns, undefined);
+  });
+
+  /**
+   * Verifies that results carry no columns unless requested.
+   */
+  await t.step("disabled by default", async () => {
+    const result = await sql`SELECT 1 AS a`.execute(db);
+    assertEquals("columns" in result, false);
+  });
+});
+
+Deno.test("➤ INFORMATIONAL MESSAGES", async (t) => {
+  const received: DiagRecord[] = [];
+  await withDialect(
+    { onMessage: (message) => received.push(message) },
+    async (messageDb) => {
+      /**
+       * Verifies that PRINT and low-severity RAISERROR output is passed to
+       * onMessage and attached to the result.
+       */
+      await t.step("execute", async () => {
+        const { rows, messages } = await sql`
+          PRINT 'first';
+          SELECT 1 AS a;
+          RAISERROR('second', 10, 1);
+        `.execute(messageDb) as OdbcQueryResult<unknown>;
+
+        assertEquals(rows, [{ a: 1 }]);
+        assertEquals(messages?.length, 2);
+        assertEquals(messages?.[0].message.endsWith("first"), true);
+        assertEquals(messages?.[1].message.endsWith("second"), true);
+        assertEquals(messages?.[1].severity, 10);
+        assertEquals(messages?.[1].nativeError, 50000);
+        assertEquals(received, messages);
+      });
+
+      /**
+       * Verifies that stream chunks carry the messages received since the
+       * previous chunk.
+       */
+      await t.step("stream", async () => {
+        const chunks: OdbcQueryResult<unknown>[] = [];
+        for await (
+          const chunk of messageDb.getExecutor().stream(
+            sql`PRINT 'before'; SELECT 1 AS a UNION ALL SELECT 2`.compile(
+              messageDb,
+            ),
+            1,
+          )
+        ) {
+          chunks.push(chunk);
+        }
+
+        assertEquals(chunks.length, 2);
+        assertEquals(chunks[0].messages?.[0].message.endsWith("before"), true);
+        assertEquals(chunks[1].messages, undefined);
+      });
+
+      /**
+       * Verifies that results carry no messages when none were sent.
+       */
+      await t.step("no messages", async () => {
+        const result = await sql`SELECT 1 AS a`.execute(messageDb);
+        assertEquals("messages" in result, false);
+      });
+    },
+  );
+});
+
+Deno.test("➤ TIME", async (t) => {
+  /**
+   * Verifies that time columns keep their 100ns precision as strings.
+   */
+  await t.step("string", async () => {
+    const { rows } = await sql<{ t: string; short: string }>`
+      SELECT CAST('08:30:15.1234567' AS time(7)) AS t,
+             CAST('23:59:59' AS time(0)) AS short
+    `.execute(db);
+
+    assertEquals(rows, [{ t: "08:30:15.1234567", short: "23:59:59.0000000" }]);
+  });
+
+  /**
+   * Verifies the round trip of every accepted parameter representation.
+   */
+  await t.step("parameters", async () => {
+    const { rows } = await sql<{ a: string; b: string; c: string }>`
+      SELECT ${time("08:30:15.1234567")} AS a,
+             ${time(30_615_123.5)} AS b,
+             ${time(Temporal.PlainTime.from("08:30:15.123456789"))} AS c
+    `.execute(db);
+
+    assertEquals(rows, [{
+      a: "08:30:15.1234567",
+      b: "08:30:15.1235000",
+      c: "08:30:15.1234567",
+    }]);
+
+    await assertRejects(
+      () => sql`SELECT ${time("24:00")}`.execute(db),
+      Error,
+      "Invalid time",
+    );
+  });
+
+  /**
+   * Verifies the milliseconds and Temporal representations.
+   */
+  await t.step("representations", async () => {
+    for (
+      const [representation, expected] of [
+        ["milliseconds", 30_615_123.4567],
+        ["temporal", Temporal.PlainTime.from("08:30:15.1234567")],
+      ] as const
+    ) {
+      await withDialect({ time: representation }, async (timeDb) => {
+        const { rows } = await sql<{ t: unknown }>`
+          SELECT CAST('08:30:15.1235' AS time(7)) AS t
+        `.execute(timeDb);
+        assertEquals(rows[0].t, expected);
+      });
+    }
+  });
+});
+
+Deno.test("➤ DATETIMEOFFSET", async (t) => {
+  const value = "2024-05-01T08:30:15.1234567+02:00";
+
+  /**
+   * Verifies that values keep their offset and 100ns precision as strings.
+   */
+  await t.step("string", async () => {
+    const { rows } = await sql<{ a: string; b: string }>`
+      SELECT CAST(${value} AS datetimeoffset(7)) AS a,
+             CAST('0099-01-02 03:04:05 -05:30' AS datetimeoffset(0)) AS b
+    `.execute(db);
+
+    assertEquals(rows, [{
+      a: value,
+      b: "0099-01-02T03:04:05.0000000-05:30",
+    }]);
+  });
+
+  /**
+   * Verifies the round trip of string and Date parameters with offsets.
+   */
+  await t.step("parameters", async () => {
+    const date = new Date("2024-05-01T06:30:15.123Z");
+    const { rows } = await sql<{ a: string; b: string; c: string }>`
+      SELECT ${datetimeoffset(value)} AS a,
+             ${datetimeoffset(date, -330)} AS b,
+             ${datetimeoffset(date)} AS c
+    `.execute(db);
+
+    assertEquals(rows, [{
+      a: value,
+      b: "2024-05-01T01:00:15.1230000-05:30",
+      c: "2024-05-01T06:30:15.1230000+00:00",
+    }]);
+  });
+
+  /**
+   * Verifies the Date plus offset representation.
+   */
+  await t.step("date", async () => {
+    await withDialect({ datetimeOffset: "date" }, async (offsetDb) => {
+      const { rows } = await sql<{ a: unknown }>`
+        SELECT CAST(${value} AS datetimeoffset(7)) AS a
+      `.execute(offsetDb);
+      assertEquals(rows[0].a, {
+        date: new Date("2024-05-01T06:30:15.123Z"),
+        offset: 120,
+      });
+    });
+  });
+});
+
+Deno.test("➤ GUID", async (t) => {
+  const id = "6f9619ff-8b86-d011-b42d-00c04fc964ff";
+
+  /**
+   * Verifies that uniqueidentifier columns are read in canonical form.
+   */
+  await t.step("column", async () => {
+    const { rows } = await sql<{ id: string }>`
+      SELECT CAST(${id.toUpperCase()} AS uniqueidentifier) AS id
+    `.execute(db);
+
+    assertEquals(rows, [{ id }]);
+  });
+
+  /**
+   * Verifies that guid() parameters are bound as uniqueidentifier.
+   */
+  await t.step("parameter", async () => {
+    const { rows } = await sql<{ id: string; type: string }>`
+      SELECT ${guid(`{${id}}`)} AS id,
+             CAST(SQL_VARIANT_PROPERTY(${
+      guid(id)
+    }, 'BaseType') AS nvarchar) AS type
+    `.execute(db);
+
+    assertEquals(rows, [{ id, type: "uniqueidentifier" }]);
+
+    await assertRejects(
+      () => sql`SELECT ${guid("not-a-guid")}`.execute(db),
+      Error,
+      "Invalid GUID",
+    );
+  });
+});
+
+Deno.test("➤ REAL AND MONEY", async (t) => {
+  /**
+   * Verifies that real columns are read as single precision numbers.
+   */
+  await t.step("real", async () => {
+    const { rows } = await sql<{ a: number; b: string; c: number }>`
+      SELECT CAST(1.5 AS real) AS a,
+             CAST(SQL_VARIANT_PROPERTY(${
+      real(0.1)
+    }, 'BaseType') AS nvarchar) AS b,
+             ${real(0.1)} AS c
+    `.execute(db);
+
+    assertEquals(rows, [{ a: 1.5, b: "real", c: Math.fround(0.1) }]);
+  });
+
+  /**
+   * Verifies that money and smallmoney are read like decimals.
+   */
+  await t.step("money", async () => {
+    const { rows } = await sql<{ a: string; b: string }>`
+      SELECT CAST(-922337203685477.5808 AS money) AS a,
+             CAST(12.34 AS smallmoney) AS b
+    `.execute(db);
+
+    assertEquals(rows, [{ a: "-922337203685477.5808", b: "12.3400" }]);
+  });
+});
+
+Deno.test("➤ DECIMAL", async (t) => {
+  /**
+   * Verifies that decimal parameters keep their precision and scale.
+   */
+  await t.step("parameters", async () => {
+    const { rows } = await sql<{ a: string; b: string; c: string; d: string }>`
+      SELECT ${decimal("12345678901234567890.123456789", 38, 9)} AS a,
+             ${decimal(-1.125, 10, 2)} AS b,
+             ${decimal(42n, 5)} AS c,
+             CAST(SQL_VARIANT_PROPERTY(${
+      decimal("1.5", 19, 4)
+    }, 'Scale') AS nvarchar) AS d
+    `.execute(db);
+
+    assertEquals(rows, [{
+      a: "12345678901234567890.123456789",
+      b: "-1.13",
+      c: "42",
+      d: "4",
+    }]);
+  });
+
+  /**
+   * Verifies that values with more digits than the precision are rejected.
+   */
+  await t.step("overflow", async () => {
+    await assertRejects(
+      () => sql`SELECT ${decimal("1000", 3)} AS a`.execute(db),
+      Error,
+      "does not fit in decimal(3, 0)",
+    );
+  });
+
+  /**
+   * Verifies the number, bigint and custom representations.
+   */
+  await t.step("representations", async () => {
+    const query = sql<{ a: unknown; b: unknown }>`
+      SELECT CAST(-12.5 AS decimal(10, 3)) AS a,
+             CAST(1.5 AS money) AS b
+    `;
+    const expected = {
+      number: { a: -12.5, b: 1.5 },
+      bigint: { a: -12500n, b: 15000n },
+      custom: { a: ["-12.500"], b: ["1.5000"] },
+    };
+
+    for (
+      const [name, representation] of [
+        ["number", "number"],
+        ["bigint", "bigint"],
+        ["custom", (value: string) => [value]],
+      ] as const
+    ) {
+      await withDialect({ decimal: representation }, async (decimalDb) => {
+        const { rows } = await query.execute(decimalDb);
+        assertEquals(rows, [expected[name]]);
+      });
+    }
+  });
+});
+
+Deno.test("➤ XML", async (t) => {
+  /**
+   * Verifies that xml columns are read as strings, including documents
+   * larger than the bind buffer.
+   */
+  await t.step("columns", async () => {
+    const { rows } = await sql<{ a: string; b: string; c: null }>`
+      SELECT CAST('<a  b="1"></a>' AS xml) AS a,
+             CAST(N'<r>' + REPLICATE(CAST(N'x' AS nvarchar(max)), 10000) +
+               N'</r>' AS xml) AS b,
+             CAST(NULL AS xml) AS c
+    `.execute(db);
+
+    assertEquals(rows, [{
+      a: '<a b="1"/>',
+      b: `<r>${"x".repeat(10000)}</r>`,
+      c: null,
+    }]);
+  });
+
+  /**
+   * Verifies that strings bound with xml() are converted by the server.
+   */
+  await t.step("parameters", async () => {
+    const { rows } = await sql<{ a: string }>`
+      SELECT ${xml("<a  b='1'></a>")} AS a
+    `.execute(db);
+
+    assertEquals(rows, [{ a: '<a b="1"/>' }]);
+  });
+
+  /**
+   * Verifies that xml values are passed to the parser.
+   */
+  await t.step("parser", async () => {
+    await withDialect({
+      xml: (value) => ({ root: /^<(\w+)/.exec(value)?.[1] }),
+    }, async (xmlDb) => {
+      const { rows } = await sql<{ a: unknown; b: string }>`
+        SELECT CAST('<config/>' AS xml) AS a, N'<config/>' AS b
+      `.execute(xmlDb);
+      assertEquals(rows, [{ a: { root: "config" }, b: "<config/>" }]);
+    });
+  });
+});
+
+Deno.test("➤ SQL_VARIANT", async (t) => {
+  /**
+   * Verifies that variants are decoded by their base type.
+   */
+  await t.step("base types", async () => {
+    const { rows } = await sql`
+      SELECT CAST(42 AS sql_variant) AS a,
+             CAST(N'text' AS sql_variant) AS b,
+             CAST(CAST(12.34 AS decimal(5, 2)) AS sql_variant) AS c,
+             CAST(CAST('2024-05-01T08:30:00' AS datetime2) AS sql_variant) AS d,
+             CAST(CAST(1 AS bit) AS sql_variant) AS e,
+             CAST(NULL AS sql_variant) AS f
+    `.execute(db);
+
+    assertEquals(rows, [{
+      a: 42,
+      b: "text",
+      c: "12.34",
+      d: new Date("2024-05-01T08:30:00Z"),
+      e: true,
+      f: null,
+    }]);
+  });
+
+  /**
+   * Verifies that the base type is read per row.
+   */
+  await t.step("rows", async () => {
+    const { rows } = await sql<{ value: unknown }>`
+      SELECT value FROM (VALUES
+        (1, CAST(1.5E0 AS sql_variant)),
+        (2, CAST('abc' AS sql_variant)),
+        (3, CAST(CAST(7 AS bigint) AS sql_variant))
+      ) AS settings(id, value)
+      ORDER BY id
+    `.execute(db);
+
+    assertEquals(rows, [{ value: 1.5 }, { value: "abc" }, { value: 7n }]);
+  });
+});
+
+Deno.test("➤ UDT", async (t) => {
+  /**
+   * Verifies that CLR types are returned in their serialized form by default.
+   */
+  await t.step("binary", async () => {
+    const { rows } = await sql<{ a: Uint8Array; b: Uint8Array }>`
+      SELECT CAST('/1/2/' AS hierarchyid) AS a,
+             geography::Point(2, 1, 4326) AS b
+    `.execute(db);
+
+    assertEquals(rows[0].a, new Uint8Array([0x5b, 0x40]));
+    assertEquals(
+      rows[0].b,
+      new Uint8Array([
+        ...[0xe6, 0x10, 0x00, 0x00, 0x01, 0x0c],
+        ...[0, 0, 0, 0, 0, 0, 0x00, 0x40], // latitude 2
+        ...[0, 0, 0, 0, 0, 0, 0xf0, 0x3f], // longitude 1
+      ]),
+    );
+  });
+
+  /**
+   * Verifies the GeoJSON, WKT and path representations.
+   */
+  await t.step("decoders", async () => {
+    const query = sql<{ a: unknown; b: unknown; c: unknown }>`
+      SELECT geography::STGeomFromText(
+               'POLYGON ((13 52, 14 52, 14 53, 13 53, 13 52))', 4326) AS a,
+             geometry::STGeomFromText(
+               'GEOMETRYCOLLECTION (POINT (1 2), LINESTRING (1 2, 3 4))', 0) AS b,
+             CAST('/1/2.1/-3/' AS hierarchyid) AS c
+    `;
+    const ring = [[13, 52], [14, 52], [14, 53], [13, 53], [13, 52]];
+
+    for (
+      const [spatial, a, b] of [
+        ["geojson", { type: "Polygon", coordinates: [ring] }, {
+          type: "GeometryCollection",
+          geometries: [
+            { type: "Point", coordinates: [1, 2] },
+            { type: "LineString", coordinates: [[1, 2], [3, 4]] },
+          ],
+        }],
+        [
+          "wkt",
+          "POLYGON ((13 52, 14 52, 14 53, 13 53, 13 52))",
+          "GEOMETRYCOLLECTION (POINT (1 2), LINESTRING (1 2, 3 4))",
+        ],
+      ] as const
+    ) {
+      await withDialect({ spatial, hierarchyId: "string" }, async (udtDb) => {
+        const { rows } = await query.execute(udtDb);
+        assertEquals(rows, [{ a, b, c: "/1/2.1/-3/" }]);
+      });
+    }
+  });
+
+  /**
+   * Verifies that parameters are serialized and converted by the server.
+   */
+  await t.step("parameters", async () => {
+    const { rows } = await sql<{ a: string; b: string; c: number; d: string }>`
+      SELECT CAST(${
+      geography({ type: "Point", coordinates: [13.4, 52.5] })
+    } AS geography).STAsText() AS a,
+             CAST(${
+      geometry("LINESTRING (0 0, 3 4)", 25832)
+    } AS geometry).STAsText() AS b,
+             CAST(${
+      geometry("LINESTRING (0 0, 3 4)")
+    } AS geometry).STLength() AS c,
+             CAST(${hierarchyid("/1/2.1/")} AS hierarchyid).ToString() AS d
+    `.execute(db);
+
+    assertEquals(rows, [{
+      a: "POINT (13.4 52.5)",
+      b: "LINESTRING (0 0, 3 4)",
+      c: 5,
+      d: "/1/2.1/",
+    }]);
+  });
+});
+
+Deno.test("➤ DATES", async (t) => {
+  const query = sql<{ a: unknown; b: unknown }>`
+    SELECT CAST('1990-04-01' AS date) AS a,
+           CAST('2024-05-01T08:30:15.1234567' AS datetime2(7)) AS b
+  `;
+
+  /**
+   * Verifies that values are read as UTC by default.
+   */
+  await t.step("utc", async () => {
+    const { rows } = await query.execute(db);
+    assertEquals(rows, [{
+      a: new Date("1990-04-01T00:00:00Z"),
+      b: new Date("2024-05-01T08:30:15.123Z"),
+    }]);
+  });
+
+  /**
+   * Verifies that values are read and bound as local time.
+   */
+  await t.step("local", async () => {
+    await withDialect({ dates: "local" }, async (localDb) => {
+      const { rows } = await query.execute(localDb);
+      assertEquals(rows, [{
+        a: new Date(1990, 3, 1),
+        b: new Date(2024, 4, 1, 8, 30, 15, 123),
+      }]);
+
+      const { rows: bound } = await sql<{ a: string }>`
+        SELECT CONVERT(nvarchar, ${new Date(2024, 4, 1, 8, 30)}, 126) AS a
+      `.execute(localDb);
+      assertEquals(bound, [{ a: "2024-05-01T08:30:00" }]);
+    });
+  });
+
+  /**
+   * Verifies that strings keep the full precision.
+   */
+  await t.step("string", async () => {
+    await withDialect({ dates: "string" }, async (stringDb) => {
+      const { rows } = await query.execute(stringDb);
+      assertEquals(rows, [{
+        a: "1990-04-01",
+        b: "2024-05-01T08:30:15.1234567",
+      }]);
+    });
+  });
+
+  /**
+   * Verifies the round trip of Temporal values.
+   */
+  await t.step("temporal", async () => {
+    await withDialect({ dates: "temporal" }, async (temporalDb) => {
+      // Temporal objects have no enumerable properties to compare.
+      const toStrings = (rows: Record<string, unknown>[]) =>
+        rows.map(({ a, b }) => ({
+          a: `${(a as Temporal.PlainDate).constructor.name} ${a}`,
+          b: `${(b as Temporal.PlainDateTime).constructor.name} ${b}`,
+        }));
+
+      const { rows } = await query.execute(temporalDb);
+      assertEquals(toStrings(rows), [{
+        a: "PlainDate 1990-04-01",
+        b: "PlainDateTime 2024-05-01T08:30:15.1234567",
+      }]);
+
+      const { rows: bound } = await sql<{ a: unknown; b: unknown }>`
+        SELECT ${Temporal.PlainDate.from("1990-04-01")} AS a,
+               ${
+        Temporal.PlainDateTime.from("2024-05-01T08:30:15.123456789")
+      } AS b
+      `.execute(temporalDb);
+      assertEquals(toStrings(bound), [{
+        a: "PlainDate 1990-04-01",
+        b: "PlainDateTime 2024-05-01T08:30:15.1234567",
+      }]);
+    });
+  });
+});
+
+Deno.test("➤ TEMPORAL", async (t) => {
+  // Temporal objects have no enumerable properties to compare.
+  const toStrings = (row: Record<string, unknown>) =>
+    Object.fromEntries(
+      Object.entries(row).map((
+        [key, value],
+      ) => [key, `${(value as object).constructor.name} ${value}`]),
+    );
+
+  await withDialect({ temporal: true }, async (temporalDb) => {
+    /**
+     * Verifies that every Temporal type is bound with 100ns precision and read
+     * back as the same type.
+     */
+    await t.step("round trip", async () => {
+      const { rows } = await sql<Record<string, unknown>>`
+        SELECT ${Temporal.PlainDate.from("1990-04-01")} AS date,
+               ${Temporal.PlainTime.from("08:30:15.123456789")} AS time,
+               ${
+        Temporal.PlainDateTime.from("2024-05-01T08:30:15.123456789")
+      } AS datetime2,
+               ${
+        Temporal.ZonedDateTime.from(
+          "2024-05-01T08:30:15.123456789+02:00[Europe/Berlin]",
+        )
+      } AS zoned,
+               ${
+        Temporal.Instant.from("2024-05-01T06:30:15.1234567Z")
+      } AS instant
+      `.execute(temporalDb);
+      assertEquals(rows.map(toStrings), [{
+        date: "PlainDate 1990-04-01",
+        time: "PlainTime 08:30:15.1234567",
+        datetime2: "PlainDateTime 2024-05-01T08:30:15.1234567",
+        zoned: "ZonedDateTime 2024-05-01T08:30:15.1234567+02:00[+02:00]",
+        instant: "ZonedDateTime 2024-05-01T06:30:15.1234567+00:00[+00:00]",
+      }]);
+    });
+
+    /**
+     * Verifies that a per-type representation takes precedence over the
+     * Temporal opt-in.
+     */
+    await t.step("precedence", async () => {
+      await withDialect(
+        { temporal: true, time: "string" },
+        async (stringDb) => {
+          const { rows } = await sql<{ a: unknown }>`
+            SELECT CAST('08:30:15.1234567' AS time(7)) AS a
+          `.execute(stringDb);
+          assertEquals(rows, [{ a: "08:30:15.1234567" }]);
+        },
+      );
+    });
+  });
 });
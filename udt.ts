@@ -0,0 +1,562 @@
+/**
+ * Serialization of the SQL Server CLR types `geography`, `geometry` and
+ * `hierarchyid`, as described in [MS-SSCLRT].
+ *
+ * @see {@link https://learn.microsoft.com/en-us/openspecs/sql_server_protocols/ms-ssclrt/}
+ */
+
+/**
+ * A GeoJSON position, `[x, y]` or `[x, y, z]`. Geography positions are
+ * `[longitude, latitude]`.
+ */
+export type Position = number[];
+
+/**
+ * A GeoJSON geometry object. Empty points have no coordinates.
+ */
+export type Geometry =
+  | { type: "Point"; coordinates: Position | [] }
+  | { type: "LineString"; coordinates: Position[] }
+  | { type: "Polygon"; coordinates: Position[][] }
+  | { type: "MultiPoint"; coordinates: Position[] }
+  | { type: "MultiLineString"; coordinates: Position[][] }
+  | { type: "MultiPolygon"; coordinates: Position[][][] }
+  | { type: "GeometryCollection"; geometries: Geometry[] };
+
+type GeometryType = Geometry["type"];
+
+// Open GIS types of the shapes, types from 8 on are curves and FullGlobe.
+const SHAPE_TYPES: readonly GeometryType[] = [
+  "Point",
+  "LineString",
+  "Polygon",
+  "MultiPoint",
+  "MultiLineString",
+  "MultiPolygon",
+  "GeometryCollection",
+];
+
+// Serialization properties
+const HAS_Z = 0x01;
+const HAS_M = 0x02;
+const IS_VALID = 0x04;
+const IS_SINGLE_POINT = 0x08;
+const IS_SINGLE_LINE_SEGMENT = 0x10;
+
+// Figure attributes of version 1
+const INTERIOR_RING = 0;
+const STROKE = 1;
+const EXTERIOR_RING = 2;
+
+type Shape = { parent: number; figure: number; type: number };
+type Figure = { attribute: number; point: number };
+
+/**
+ * Decodes a serialized `geography` or `geometry` into a GeoJSON geometry. M
+ * values are dropped, curves and `FULLGLOBE` are not supported.
+ */
+export function decodeSpatial(
+  data: Uint8Array,
+  isGeography: boolean,
+): Geometry {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  let offset = 4; // SRID
+
+  const version = view.getUint8(offset++);
+  if (version !== 1 && version !== 2) {
+    throw new Error(`Unsupported spatial serialization version: ${version}`);
+  }
+
+  const props = view.getUint8(offset++);
+  const hasZ = (props & HAS_Z) !== 0;
+  const hasM = (props & HAS_M) !== 0;
+  const isSinglePoint = (props & IS_SINGLE_POINT) !== 0;
+  const isSingleSegment = (props & IS_SINGLE_LINE_SEGMENT) !== 0;
+
+  let pointCount = isSinglePoint ? 1 : 2;
+  if (!isSinglePoint && !isSingleSegment) {
+    pointCount = view.getInt32(offset, true);
+    offset += 4;
+  }
+
+  // Geography points are stored as latitude, longitude.
+  const points: Position[] = [];
+  for (let i = 0; i < pointCount; i++) {
+    const first = view.getFloat64(offset, true);
+    const second = view.getFloat64(offset + 8, true);
+    points.push(isGeography ? [second, first] : [first, second]);
+    offset += 16;
+  }
+
+  if (hasZ) {
+    for (const point of points) {
+      const z = view.getFloat64(offset, true);
+      if (!Number.isNaN(z)) point.push(z);
+      offset += 8;
+    }
+  }
+  if (hasM) offset += pointCount * 8;
+
+  if (isSinglePoint || isSingleSegment) {
+    return toGeometry(points, [{ attribute: STROKE, point: 0 }], [{
+      parent: -1,
+      figure: 0,
+      type: isSinglePoint ? 1 : 2,
+    }], 0);
+  }
+
+  const figures: Figure[] = [];
+  const figureCount = view.getInt32(offset, true);
+  offset += 4;
+  for (let i = 0; i < figureCount; i++) {
+    figures.push({
+      attribute: view.getUint8(offset),
+      point: view.getInt32(offset + 1, true),
+    });
+    offset += 5;
+  }
+
+  const shapes: Shape[] = [];
+  const shapeCount = view.getInt32(offset, true);
+  offset += 4;
+  for (let i = 0; i < shapeCount; i++) {
+    shapes.push({
+      parent: view.getInt32(offset, true),
+      figure: view.getInt32(offset + 4, true),
+      type: view.getUint8(offset + 8),
+    });
+    offset += 9;
+  }
+
+  return toGeometry(points, figures, shapes, 0);
+}
+
+function toGeometry(
+  points: Position[],
+  figures: Figure[],
+  shapes: Shape[],
+  shapeIndex: number,
+): Geometry {
+  const shape = shapes[shapeIndex];
+  const type = SHAPE_TYPES[shape.type - 1];
+  if (!type) {
+    throw new Error(`Unsupported spatial shape type: ${shape.type}`);
+  }
+
+  const children = () =>
+    shapes.flatMap((child, i) =>
+      child.parent === shapeIndex
+        ? [toGeometry(points, figures, shapes, i)]
+        : []
+    );
+  const childCoordinates = <T>() =>
+    children().map((child) =>
+      (child as Extract<Geometry, { coordinates: unknown }>).coordinates as T
+    );
+
+  // The figures of a shape end where those of the next shape begin, the
+  // points of a figure where those of the next figure begin.
+  const ownFigures = (): Position[][] => {
+    if (shape.figure === -1) return [];
+
+    const next = shapes.slice(shapeIndex + 1).find(({ figure }) =>
+      figure !== -1
+    );
+    const end = next?.figure ?? figures.length;
+
+    const result: Position[][] = [];
+    for (let i = shape.figure; i < end; i++) {
+      result.push(
+        points.slice(figures[i].point, figures[i + 1]?.point ?? points.length),
+      );
+    }
+    return result;
+  };
+
+  switch (type) {
+    case "Point":
+      return { type, coordinates: ownFigures()[0]?.[0] ?? [] };
+    case "LineString":
+      return { type, coordinates: ownFigures()[0] ?? [] };
+    case "Polygon":
+      return { type, coordinates: ownFigures() };
+    case "MultiPoint":
+      return { type, coordinates: childCoordinates<Position>() };
+    case "MultiLineString":
+      return { type, coordinates: childCoordinates<Position[]>() };
+    case "MultiPolygon":
+      return { type, coordinates: childCoordinates<Position[][]>() };
+    case "GeometryCollection":
+      return { type, geometries: children() };
+  }
+}
+
+/**
+ * Encodes a GeoJSON geometry or WKT string as a serialized `geography` or
+ * `geometry` with the given SRID.
+ */
+export function encodeSpatial(
+  value: Geometry | string,
+  srid: number,
+  isGeography: boolean,
+): Uint8Array<ArrayBuffer> {
+  const geometry = typeof value === "string" ? parseWkt(value) : value;
+
+  const points: Position[] = [];
+  const figures: Figure[] = [];
+  const shapes: Shape[] = [];
+
+  const addFigure = (attribute: number, positions: Position[]) => {
+    figures.push({ attribute, point: points.length });
+    points.push(...positions);
+  };
+
+  const addShape = (geometry: Geometry, parent: number) => {
+    const index = shapes.length;
+    const shape = {
+      parent,
+      figure: figures.length,
+      type: SHAPE_TYPES.indexOf(geometry.type) + 1,
+    };
+    if (shape.type === 0) {
+      throw new Error(`Unsupported geometry type: ${geometry.type}`);
+    }
+    shapes.push(shape);
+
+    switch (geometry.type) {
+      case "Point":
+        if (geometry.coordinates.length) {
+          addFigure(STROKE, [geometry.coordinates]);
+        }
+        break;
+      case "LineString":
+        if (geometry.coordinates.length) {
+          addFigure(STROKE, geometry.coordinates);
+        }
+        break;
+      case "Polygon":
+        geometry.coordinates.forEach((ring, i) =>
+          addFigure(i === 0 ? EXTERIOR_RING : INTERIOR_RING, ring)
+        );
+        break;
+      case "MultiPoint":
+        for (const coordinates of geometry.coordinates) {
+          addShape({ type: "Point", coordinates }, index);
+        }
+        break;
+      case "MultiLineString":
+        for (const coordinates of geometry.coordinates) {
+          addShape({ type: "LineString", coordinates }, index);
+        }
+        break;
+      case "MultiPolygon":
+        for (const coordinates of geometry.coordinates) {
+          addShape({ type: "Polygon", coordinates }, index);
+        }
+        break;
+      case "GeometryCollection":
+        for (const child of geometry.geometries) addShape(child, index);
+        break;
+    }
+
+    if (shape.figure === figures.length) shape.figure = -1; // empty
+  };
+
+  addShape(geometry, -1);
+
+  const hasZ = points.some((point) => point.length > 2);
+  const isSinglePoint = shapes.length === 1 && points.length === 1;
+  let props = IS_VALID;
+  if (hasZ) props |= HAS_Z;
+  if (isSinglePoint) props |= IS_SINGLE_POINT;
+
+  const size = 6 + points.length * (hasZ ? 24 : 16) +
+    (isSinglePoint ? 0 : 12 + figures.length * 5 + shapes.length * 9);
+  const buf = new Uint8Array(size);
+  const view = new DataView(buf.buffer);
+  let offset = 0;
+
+  view.setInt32(offset, srid, true);
+  view.setUint8(offset + 4, 1); // version
+  view.setUint8(offset + 5, props);
+  offset += 6;
+
+  if (!isSinglePoint) {
+    view.setInt32(offset, points.length, true);
+    offset += 4;
+  }
+
+  for (const [x, y] of points) {
+    if (!Number.isFinite(x) || !Number.isFinite(y)) {
+      throw new Error(`Invalid position: [${x}, ${y}]`);
+    }
+    view.setFloat64(offset, isGeography ? y : x, true);
+    view.setFloat64(offset + 8, isGeography ? x : y, true);
+    offset += 16;
+  }
+
+  if (hasZ) {
+    for (const point of points) {
+      view.setFloat64(offset, point[2] ?? NaN, true);
+      offset += 8;
+    }
+  }
+
+  if (isSinglePoint) return buf;
+
+  view.setInt32(offset, figures.length, true);
+  offset += 4;
+  for (const figure of figures) {
+    view.setUint8(offset, figure.attribute);
+    view.setInt32(offset + 1, figure.point, true);
+    offset += 5;
+  }
+
+  view.setInt32(offset, shapes.length, true);
+  offset += 4;
+  for (const shape of shapes) {
+    view.setInt32(offset, shape.parent, true);
+    view.setInt32(offset + 4, shape.figure, true);
+    view.setUint8(offset + 8, shape.type);
+    offset += 9;
+  }
+
+  return buf;
+}
+
+/**
+ * Formats a GeoJSON geometry as WKT, in the form SQL Server returns it from
+ * `STAsText()`.
+ */
+export function formatWkt(geometry: Geometry): string {
+  const name = geometry.type.toUpperCase();
+  const tagged = (text: string) => text ? `${name} (${text})` : `${name} EMPTY`;
+
+  const position = (point: Position) => point.join(" ");
+  const line = (points: Position[]) => points.map(position).join(", ");
+  const polygon = (rings: Position[][]) =>
+    rings.map((ring) => `(${line(ring)})`).join(", ");
+
+  switch (geometry.type) {
+    case "Point":
+      return tagged(position(geometry.coordinates));
+    case "LineString":
+      return tagged(line(geometry.coordinates));
+    case "Polygon":
+      return tagged(polygon(geometry.coordinates));
+    case "MultiPoint":
+      return tagged(
+        geometry.coordinates.map((point) => `(${position(point)})`).join(", "),
+      );
+    case "MultiLineString":
+      return tagged(polygon(geometry.coordinates));
+    case "MultiPolygon":
+      return tagged(
+        geometry.coordinates.map((rings) => `(${polygon(rings)})`).join(", "),
+      );
+    case "GeometryCollection":
+      return tagged(geometry.geometries.map(formatWkt).join(", "));
+  }
+}
+
+/**
+ * Parses a WKT string into a GeoJSON geometry.
+ */
+export function parseWkt(wkt: string): Geometry {
+  const tokens = wkt.match(/[A-Za-z]+|[-+]?[\d.]+(?:[eE][-+]?\d+)?|[(),]/g) ??
+    [];
+  let pos = 0;
+
+  const fail = (): never => {
+    throw new Error(`Invalid WKT: "${wkt}"`);
+  };
+  const peek = () => tokens[pos]?.toUpperCase();
+  const expect = (token: string) => {
+    if (peek() !== token) fail();
+    pos++;
+  };
+
+  // Reads "EMPTY" or a parenthesized, comma separated list.
+  const list = <T>(item: () => T): T[] => {
+    if (peek() === "EMPTY") {
+      pos++;
+      return [];
+    }
+    expect("(");
+    const items = [item()];
+    while (peek() === ",") {
+      pos++;
+      items.push(item());
+    }
+    expect(")");
+    return items;
+  };
+
+  const position = (): Position => {
+    const point: number[] = [];
+    while (/^[-+\d.]/.test(tokens[pos] ?? "")) {
+      point.push(Number(tokens[pos++]));
+    }
+    if (point.length < 2 || point.some(Number.isNaN)) fail();
+    return point;
+  };
+  // MULTIPOINT accepts both "(1 2, 3 4)" and "((1 2), (3 4))".
+  const multiPointPosition = (): Position => {
+    if (peek() !== "(") return position();
+    pos++;
+    const point = position();
+    expect(")");
+    return point;
+  };
+  const line = () => list(position);
+  const polygon = () => list(line);
+
+  const geometry = (): Geometry => {
+    const type = peek();
+    pos++;
+    if (peek() === "Z") pos++;
+
+    switch (type) {
+      case "POINT":
+        return { type: "Point", coordinates: list(position)[0] ?? [] };
+      case "LINESTRING":
+        return { type: "LineString", coordinates: line() };
+      case "POLYGON":
+        return { type: "Polygon", coordinates: polygon() };
+      case "MULTIPOINT":
+        return { type: "MultiPoint", coordinates: list(multiPointPosition) };
+      case "MULTILINESTRING":
+        return { type: "MultiLineString", coordinates: polygon() };
+      case "MULTIPOLYGON":
+        return { type: "MultiPolygon", coordinates: list(polygon) };
+      case "GEOMETRYCOLLECTION":
+        return { type: "GeometryCollection", geometries: list(geometry) };
+      default:
+        return fail();
+    }
+  };
+
+  const result = geometry();
+  if (pos !== tokens.length) fail();
+  return result;
+}
+
+type HierarchyIdPattern = { min: bigint; max: bigint; bits: string };
+
+/**
+ * Bit patterns of the labels of a `hierarchyid` level. `x` bits hold the
+ * label minus `min`, `T` is 1 for the last label of a level.
+ */
+const HIERARCHY_ID_PATTERNS: readonly HierarchyIdPattern[] = [
+  { min: 0n, max: 3n, bits: "01xxT" },
+  { min: 4n, max: 7n, bits: "100xxT" },
+  { min: 8n, max: 15n, bits: "101xxxT" },
+  { min: 16n, max: 79n, bits: "110xx0x1xxxT" },
+  { min: 80n, max: 1103n, bits: "1110xxx0xxx0x1xxxT" },
+  { min: 1104n, max: 5199n, bits: "11110xxxxx0xxx0x1xxxT" },
+  {
+    min: 5200n,
+    max: 4294972495n,
+    bits: "111110xxxxxxxxxxxxxxxxxxx0xxxxxx0xxx0x1xxxT",
+  },
+  {
+    min: 4294972496n,
+    max: 281479271683151n,
+    bits: "111111xxxxxxxxxxxxxx0xxxxxxxxxxxxxxxxxxxxx0xxxxxx0xxx0x1xxxT",
+  },
+  { min: -8n, max: -1n, bits: "00111xxxT" },
+  { min: -72n, max: -9n, bits: "0010xx0x1xxxT" },
+  { min: -4168n, max: -73n, bits: "000111xxxxx0xxx0x1xxxT" },
+  {
+    min: -4294971464n,
+    max: -4169n,
+    bits: "000110xxxxxxxxxxxxxxxxxxx0xxxxxx0xxx0x1xxxT",
+  },
+  {
+    min: -281479271682120n,
+    max: -4294971465n,
+    bits: "000101xxxxxxxxxxxxxx0xxxxxxxxxxxxxxxxxxxxx0xxxxxx0xxx0x1xxxT",
+  },
+];
+
+/**
+ * Decodes a serialized `hierarchyid` into its path, e.g. `/1/2.1/`.
+ */
+export function decodeHierarchyId(data: Uint8Array): string {
+  const bits = Array.from(data, (byte) => byte.toString(2).padStart(8, "0"))
+    .join("");
+  const levels: bigint[][] = [];
+  let labels: bigint[] = [];
+  let pos = 0;
+
+  // The last level is padded with zero bits to a whole byte.
+  while (bits.includes("1", pos)) {
+    const pattern = HIERARCHY_ID_PATTERNS.find(({ bits: pattern }) =>
+      bits.startsWith(pattern.slice(0, pattern.indexOf("x")), pos)
+    );
+    if (!pattern) throw new Error("Invalid hierarchyid");
+
+    let value = 0n;
+    let isLast = false;
+    for (const bit of pattern.bits) {
+      const actual = bits[pos++];
+      if (actual === undefined) throw new Error("Invalid hierarchyid");
+
+      if (bit === "x") value = value * 2n + BigInt(actual);
+      else if (bit === "T") isLast = actual === "1";
+      else if (bit !== actual) throw new Error("Invalid hierarchyid");
+    }
+
+    value += pattern.min;
+    if (isLast) {
+      labels.push(value);
+      levels.push(labels);
+      labels = [];
+    } else {
+      labels.push(value - 1n); // labels followed by a dot are stored + 1
+    }
+  }
+
+  return "/" + levels.map((level) => `${level.join(".")}/`).join("");
+}
+
+/**
+ * Encodes a `hierarchyid` path such as `/1/2.1/` into its serialized form.
+ */
+export function encodeHierarchyId(path: string): Uint8Array<ArrayBuffer> {
+  if (!/^\/(?:-?\d+(?:\.-?\d+)*\/)*$/.test(path)) {
+    throw new Error(`Invalid hierarchyid: "${path}"`);
+  }
+
+  let bits = "";
+  for (const level of path.split("/").slice(1, -1)) {
+    const labels = level.split(".").map(BigInt);
+
+    labels.forEach((label, i) => {
+      const isLast = i === labels.length - 1;
+      const value = isLast ? label : label + 1n;
+      const pattern = HIERARCHY_ID_PATTERNS.find(({ min, max }) =>
+        value >= min && value <= max
+      );
+      if (!pattern) {
+        throw new Error(`hierarchyid label out of range: ${label}`);
+      }
+
+      let rest = value - pattern.min;
+      const encoded = [...pattern.bits].reverse().map((bit) => {
+        if (bit === "T") return isLast ? "1" : "0";
+        if (bit !== "x") return bit;
+        const digit = (rest & 1n).toString();
+        rest >>= 1n;
+        return digit;
+      });
+      bits += encoded.reverse().join("");
+    });
+  }
+
+  const buf = new Uint8Array(Math.ceil(bits.length / 8));
+  for (let i = 0; i < buf.length; i++) {
+    buf[i] = parseInt(bits.slice(i * 8, i * 8 + 8).padEnd(8, "0"), 2);
+  }
+  return buf;
+}
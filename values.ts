@@ -0,0 +1,217 @@
+import type { Geometry } from "./udt.ts";
+
+/**
+ * Maps the SQL Server types that can be bound explicitly to the JavaScript
+ * values accepted for them.
+ */
+export interface TypedParameterTypes {
+  /**
+   * `HH:MM[:SS[.fffffff]]`, milliseconds since midnight or a
+   * `Temporal.PlainTime`.
+   */
+  time: string | number | Temporal.PlainTime;
+  /**
+   * A `Date` or `Temporal.Instant` with an offset, a `Temporal.ZonedDateTime`
+   * or an ISO 8601 string with an offset such as
+   * `2024-05-01T08:30:00.1234567+02:00`.
+   */
+  datetimeoffset: Date | string | Temporal.Instant | Temporal.ZonedDateTime;
+  /**
+   * A UUID string such as `6f9619ff-8b86-d011-b42d-00c04fc964ff`, optionally
+   * in braces.
+   */
+  guid: string;
+  /**
+   * A number rounded to single precision.
+   */
+  real: number;
+  /**
+   * A decimal string such as `-1234.5678`, a number or a bigint.
+   */
+  decimal: string | number | bigint;
+  /**
+   * An XML document or fragment.
+   */
+  xml: string;
+  /**
+   * A GeoJSON geometry with `[longitude, latitude]` positions, WKT or the
+   * serialized form.
+   */
+  geography: Geometry | string | Uint8Array;
+  /**
+   * A GeoJSON geometry, WKT or the serialized form.
+   */
+  geometry: Geometry | string | Uint8Array;
+  /**
+   * A path such as `/1/2.1/` or the serialized form.
+   */
+  hierarchyid: string | Uint8Array;
+}
+
+export type TypedParameterType = keyof TypedParameterTypes;
+
+export interface TypedParameterOptions {
+  /**
+   * Offset from UTC in minutes a `datetimeoffset` `Date` is stored with
+   * (-840 - 840, default 0).
+   */
+  offset?: number;
+  /**
+   * Total number of digits of a `decimal` (1 - 38, default 18).
+   */
+  precision?: number;
+  /**
+   * Number of digits after the decimal point of a `decimal` (0 - precision,
+   * default 0).
+   */
+  scale?: number;
+  /**
+   * Spatial reference ID of a `geography` (default 4326) or `geometry`
+   * (default 0).
+   */
+  srid?: number;
+}
+
+/**
+ * A parameter value bound as a specific SQL Server type instead of the type
+ * inferred from its JavaScript value. Create instances with the factory of the
+ * type, e.g. {@link time}.
+ */
+export class TypedParameter<T extends TypedParameterType> {
+  readonly type: T;
+  readonly value: TypedParameterTypes[T];
+  readonly options: Readonly<TypedParameterOptions>;
+
+  constructor(
+    type: T,
+    value: TypedParameterTypes[T],
+    options: TypedParameterOptions = {},
+  ) {
+    this.type = type;
+    this.value = value;
+    this.options = Object.freeze({ ...options });
+  }
+}
+
+/**
+ * A `datetimeoffset` value read as a `Date`, with the offset from UTC in
+ * minutes it was stored with.
+ */
+export interface DateTimeOffset {
+  date: Date;
+  offset: number;
+}
+
+/**
+ * Binds a value as `time(7)`, keeping its full 100ns precision.
+ *
+ * ```ts
+ * time("08:30:00.1234567");
+ * time(30_600_000); // 08:30
+ * time(Temporal.PlainTime.from("08:30"));
+ * ```
+ */
+export function time(
+  value: TypedParameterTypes["time"],
+): TypedParameter<"time"> {
+  return new TypedParameter("time", value);
+}
+
+/**
+ * Binds a value as `datetimeoffset(7)`. A `Date` or `Temporal.Instant` is
+ * stored as its local time at `offset` minutes from UTC (default `0`), an ISO
+ * 8601 string or `Temporal.ZonedDateTime` keeps the offset it carries.
+ *
+ * ```ts
+ * datetimeoffset(new Date(), 120); // +02:00
+ * datetimeoffset("2024-05-01T08:30:00.1234567-05:00");
+ * ```
+ */
+export function datetimeoffset(
+  value: TypedParameterTypes["datetimeoffset"],
+  offset?: number,
+): TypedParameter<"datetimeoffset"> {
+  return new TypedParameter("datetimeoffset", value, { offset });
+}
+
+/**
+ * Binds a UUID string as `uniqueidentifier`, so comparisons with
+ * `uniqueidentifier` columns can use their indexes instead of converting the
+ * column.
+ *
+ * ```ts
+ * db.selectFrom("person").where("id", "=", guid(id));
+ * ```
+ */
+export function guid(value: string): TypedParameter<"guid"> {
+  return new TypedParameter("guid", value);
+}
+
+/**
+ * Binds a number as `real` (single precision) instead of `float`.
+ */
+export function real(value: number): TypedParameter<"real"> {
+  return new TypedParameter("real", value);
+}
+
+/**
+ * Binds a value as `decimal(precision, scale)` instead of `float` or
+ * `nvarchar`, keeping every digit. Fractional digits beyond `scale` are rounded
+ * half away from zero, values with more than `precision` digits are rejected.
+ *
+ * ```ts
+ * decimal("1234.5678", 19, 4);
+ * decimal(10n, 5); // decimal(5, 0)
+ * ```
+ */
+export function decimal(
+  value: TypedParameterTypes["decimal"],
+  precision?: number,
+  scale?: number,
+): TypedParameter<"decimal"> {
+  return new TypedParameter("decimal", value, { precision, scale });
+}
+
+/**
+ * Binds a string as `xml` instead of `nvarchar`, e.g. to pass a document to an
+ * `xml` parameter of a stored procedure.
+ */
+export function xml(value: string): TypedParameter<"xml"> {
+  return new TypedParameter("xml", value);
+}
+
+/**
+ * Binds a GeoJSON geometry or WKT string as a serialized `geography`, which
+ * the server converts implicitly where a `geography` is expected.
+ *
+ * ```ts
+ * geography({ type: "Point", coordinates: [13.4, 52.5] });
+ * geography("POLYGON ((13 52, 14 52, 14 53, 13 53, 13 52))");
+ * ```
+ */
+export function geography(
+  value: TypedParameterTypes["geography"],
+  srid?: number,
+): TypedParameter<"geography"> {
+  return new TypedParameter("geography", value, { srid });
+}
+
+/**
+ * Binds a GeoJSON geometry or WKT string as a serialized `geometry`, which the
+ * server converts implicitly where a `geometry` is expected.
+ */
+export function geometry(
+  value: TypedParameterTypes["geometry"],
+  srid?: number,
+): TypedParameter<"geometry"> {
+  return new TypedParameter("geometry", value, { srid });
+}
+
+/**
+ * Binds a path such as `/1/2.1/` as a serialized `hierarchyid`.
+ */
+export function hierarchyid(
+  value: TypedParameterTypes["hierarchyid"],
+): TypedParameter<"hierarchyid"> {
+  return new TypedParameter("hierarchyid", value);
+}